@@ -0,0 +1,120 @@
+import {
+  InvalidPromptError,
+  LanguageModelV1Prompt,
+  UnsupportedFunctionalityError,
+} from '@ai-sdk/provider';
+
+/**
+ * A message of an OpenAI chat completions request.
+ */
+export type OpenAICompatibleChatMessage =
+  | { role: 'system' | 'developer'; content: string | Array<{ type: 'text'; text: string }> }
+  | { role: 'user'; content: string | Array<{ type: string; text?: string }> }
+  | {
+      role: 'assistant';
+      content?: string | null;
+      tool_calls?: Array<{
+        id: string;
+        type: 'function';
+        function: { name: string; arguments: string };
+      }>;
+    }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+/**
+ * Converts the messages of an OpenAI chat completions request into an AI SDK prompt.
+ */
+export function convertFromOpenAICompatibleChatMessages(
+  messages: OpenAICompatibleChatMessage[],
+): LanguageModelV1Prompt {
+  const prompt: LanguageModelV1Prompt = [];
+  // tool messages only carry the id of their call:
+  const toolNames = new Map<string, string>();
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system':
+      case 'developer': {
+        prompt.push({ role: 'system', content: getText(message.content) });
+        break;
+      }
+
+      case 'user': {
+        if (typeof message.content === 'string') {
+          prompt.push({ role: 'user', content: [{ type: 'text', text: message.content }] });
+          break;
+        }
+        prompt.push({
+          role: 'user',
+          content: message.content.map(part => {
+            if (part.type !== 'text') {
+              throw new UnsupportedFunctionalityError({ functionality: `${part.type} content parts` });
+            }
+            return { type: 'text', text: part.text ?? '' };
+          }),
+        });
+        break;
+      }
+
+      case 'assistant': {
+        const content: Extract<LanguageModelV1Prompt[number], { role: 'assistant' }>['content'] = [];
+        if (message.content) {
+          content.push({ type: 'text', text: message.content });
+        }
+        for (const toolCall of message.tool_calls ?? []) {
+          toolNames.set(toolCall.id, toolCall.function.name);
+          content.push({
+            type: 'tool-call',
+            toolCallId: toolCall.id,
+            toolName: toolCall.function.name,
+            args: parseJSON(toolCall.function.arguments),
+          });
+        }
+        prompt.push({ role: 'assistant', content });
+        break;
+      }
+
+      case 'tool': {
+        const toolName = toolNames.get(message.tool_call_id);
+        if (toolName == null) {
+          throw new InvalidPromptError({
+            message: `Tool message for unknown tool call ${message.tool_call_id}`,
+            prompt: messages,
+          });
+        }
+        prompt.push({
+          role: 'tool',
+          content: [{
+            type: 'tool-result',
+            toolCallId: message.tool_call_id,
+            toolName,
+            result: parseJSON(message.content),
+          }],
+        });
+        break;
+      }
+
+      default: {
+        throw new InvalidPromptError({
+          message: `Unsupported role: ${(message as { role: unknown }).role}`,
+          prompt: messages,
+        });
+      }
+    }
+  }
+
+  return prompt;
+}
+
+function getText(content: string | Array<{ type: 'text'; text: string }>): string {
+  return typeof content === 'string' ? content : content.map(part => part.text).join('');
+}
+
+// tool arguments and results are JSON by convention, but plain strings are common too
+function parseJSON(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
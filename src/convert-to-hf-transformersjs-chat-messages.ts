@@ -0,0 +1,126 @@
+import {
+  LanguageModelV1Prompt,
+  UnsupportedFunctionalityError,
+} from '@ai-sdk/provider';
+
+export type HFTransformersjsChatPrompt = Array<HFTransformersjsChatMessage>;
+
+export interface HFTransformersjsChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /**
+   * Tool calls of an assistant message. Chat templates render `function.arguments` themselves.
+   */
+  tool_calls?: Array<{
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: unknown };
+  }>;
+  /**
+   * Id of the tool call a tool message responds to.
+   */
+  tool_call_id?: string;
+  /**
+   * Name of the tool that produced a tool message.
+   */
+  name?: string;
+}
+
+/**
+ * Converts an AI SDK prompt into the `{ role, content }` messages that
+ * Hugging Face chat templates expect.
+ */
+export function convertToHFTransformersjsChatMessages(
+  prompt: LanguageModelV1Prompt,
+): HFTransformersjsChatPrompt {
+  const messages: HFTransformersjsChatPrompt = [];
+
+  for (const { role, content } of prompt) {
+    // Legacy format with string content
+    if (typeof content === 'string') {
+      messages.push({ role, content });
+      continue;
+    }
+
+    switch (role) {
+      case 'system': {
+        messages.push({ role: 'system', content });
+        break;
+      }
+
+      case 'user': {
+        messages.push({
+          role: 'user',
+          content: content
+            .map((part) => {
+              switch (part.type) {
+                case 'text': {
+                  return part.text;
+                }
+                case 'image': {
+                  throw new UnsupportedFunctionalityError({
+                    functionality: 'Image content parts in user messages',
+                  });
+                }
+                case 'file': {
+                  throw new UnsupportedFunctionalityError({
+                    functionality: 'File content parts in user messages',
+                  });
+                }
+              }
+            })
+            .join(''),
+        });
+        break;
+      }
+
+      case 'assistant': {
+        let text = '';
+        const toolCalls: HFTransformersjsChatMessage['tool_calls'] = [];
+
+        for (const part of content) {
+          switch (part.type) {
+            case 'text': {
+              text += part.text;
+              break;
+            }
+            case 'tool-call': {
+              toolCalls.push({
+                id: part.toolCallId,
+                type: 'function',
+                function: { name: part.toolName, arguments: part.args },
+              });
+              break;
+            }
+          }
+        }
+
+        messages.push({
+          role: 'assistant',
+          content: text,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        });
+        break;
+      }
+
+      case 'tool': {
+        for (const toolResponse of content) {
+          messages.push({
+            role: 'tool',
+            tool_call_id: toolResponse.toolCallId,
+            name: toolResponse.toolName,
+            content: JSON.stringify(toolResponse.result),
+          });
+        }
+        break;
+      }
+
+      default: {
+        const _exhaustiveCheck: never = role;
+        throw new Error(`Unsupported role: ${_exhaustiveCheck}`);
+      }
+    }
+  }
+
+  return messages;
+}
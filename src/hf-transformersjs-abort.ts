@@ -0,0 +1,57 @@
+import { HFTransformersjsStoppingCriterion } from './hf-transformersjs-stop-sequences';
+
+/**
+ * The error to reject with when the signal was aborted: its reason, or a DOMException named
+ * `AbortError` like the one `fetch` throws.
+ */
+export function getAbortError(abortSignal: AbortSignal): unknown {
+  return abortSignal.reason ?? new DOMException('This operation was aborted', 'AbortError');
+}
+
+export function throwIfAborted(abortSignal: AbortSignal | undefined): void {
+  if (abortSignal?.aborted) {
+    throw getAbortError(abortSignal);
+  }
+}
+
+/**
+ * Rejects as soon as the signal is aborted, without waiting for the promise. The underlying work
+ * is not cancelled: for a pipeline load, the download and the creation of the inference session
+ * run to completion, and the registry keeps the loaded pipeline for later calls until it is
+ * unloaded or evicted.
+ */
+export function raceAbortSignal<T>(promise: Promise<T>, abortSignal: AbortSignal | undefined): Promise<T> {
+  if (abortSignal == null) {
+    return promise;
+  }
+  if (abortSignal.aborted) {
+    return Promise.reject(getAbortError(abortSignal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(getAbortError(abortSignal));
+    abortSignal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        abortSignal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        abortSignal.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    );
+  });
+}
+
+/**
+ * Stopping criteria that end generation at the next token once the signal is aborted.
+ */
+export function getAbortStoppingCriteria(
+  abortSignal: AbortSignal | undefined,
+): HFTransformersjsStoppingCriterion[] {
+  if (abortSignal == null) {
+    return [];
+  }
+  return [inputIds => inputIds.map(() => abortSignal.aborted)];
+}
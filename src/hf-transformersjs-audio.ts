@@ -0,0 +1,179 @@
+import { InvalidArgumentError } from '@ai-sdk/provider';
+import { convertBase64ToUint8Array } from '@ai-sdk/provider-utils';
+
+/**
+ * Audio to transcribe: WAV bytes, 16-bit little-endian PCM bytes, Float32 PCM samples, or either
+ * kind of bytes as a base64 string. PCM is mono.
+ */
+export type HFTransformersjsAudio = Uint8Array | Float32Array | string;
+
+/**
+ * Decodes the audio into mono samples between -1 and 1. WAV files carry their sample rate, PCM is
+ * at `sampleRate`.
+ */
+export function decodeAudio(
+    audio: HFTransformersjsAudio,
+    sampleRate: number,
+): { samples: Float32Array; sampleRate: number } {
+  if (audio instanceof Float32Array) {
+    return { samples: audio, sampleRate };
+  }
+
+  const bytes = typeof audio === 'string' ? convertBase64ToUint8Array(audio) : audio;
+  if (isWav(bytes)) {
+    return decodeWav(bytes);
+  }
+
+  if (bytes.length % 2 !== 0) {
+    throw new InvalidArgumentError({
+      argument: 'audio',
+      message: 'Audio bytes are neither a WAV file nor 16-bit PCM.',
+    });
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const samples = new Float32Array(bytes.length / 2);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true) / 32768;
+  }
+  return { samples, sampleRate };
+}
+
+// Zero crossings of the sinc filter on each side, at the cutoff frequency
+const FILTER_ZERO_CROSSINGS = 16;
+
+// Cutoff below the Nyquist frequency, which leaves room for the transition band of the filter
+const FILTER_CUTOFF = 0.95;
+
+// Precomputed filter values per input sample; the filter is interpolated between them
+const FILTER_RESOLUTION = 128;
+
+/**
+ * Resamples the audio with a windowed-sinc filter. When downsampling, the filter also removes the
+ * frequencies above the new Nyquist frequency, which would otherwise alias into the speech band.
+ */
+export function resampleAudio(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate || samples.length === 0) {
+    return samples;
+  }
+
+  const ratio = fromRate / toRate;
+  // cutoff as a fraction of the input Nyquist frequency, and the half width of the filter in input samples:
+  const cutoff = FILTER_CUTOFF * Math.min(1, toRate / fromRate);
+  const halfWidth = FILTER_ZERO_CROSSINGS / cutoff;
+
+  // one side of the symmetric filter, with a trailing zero for the interpolation
+  const filter = new Float32Array(Math.ceil(halfWidth * FILTER_RESOLUTION) + 2);
+  for (let k = 0; k < filter.length; k++) {
+    const offset = k / FILTER_RESOLUTION;
+    filter[k] = offset < halfWidth ? sinc(cutoff * offset) * blackmanWindow(offset / halfWidth) : 0;
+  }
+
+  const resampled = new Float32Array(Math.max(1, Math.round(samples.length / ratio)));
+  for (let i = 0; i < resampled.length; i++) {
+    const position = i * ratio;
+    const first = Math.max(0, Math.ceil(position - halfWidth));
+    const last = Math.min(samples.length - 1, Math.floor(position + halfWidth));
+
+    let sum = 0;
+    let weights = 0;
+    for (let j = first; j <= last; j++) {
+      const index = Math.abs(j - position) * FILTER_RESOLUTION;
+      const k = Math.floor(index);
+      const weight = filter[k] + (filter[k + 1] - filter[k]) * (index - k);
+      sum += samples[j] * weight;
+      weights += weight;
+    }
+    // the weights are normalized, which keeps the level at the edges of the audio
+    resampled[i] = weights !== 0 ? sum / weights : 0;
+  }
+  return resampled;
+}
+
+function sinc(x: number): number {
+  return x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+}
+
+// Blackman window over -1..1
+function blackmanWindow(x: number): number {
+  return 0.42 + 0.5 * Math.cos(Math.PI * x) + 0.08 * Math.cos(2 * Math.PI * x);
+}
+
+function isWav(bytes: Uint8Array): boolean {
+  return bytes.length >= 12 && readTag(bytes, 0) === 'RIFF' && readTag(bytes, 8) === 'WAVE';
+}
+
+function readTag(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
+
+// Integer and float PCM WAV files, with the channels mixed down to mono
+function decodeWav(bytes: Uint8Array): { samples: Float32Array; sampleRate: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let format: { encoding: number; channels: number; sampleRate: number; bitsPerSample: number } | undefined;
+  let data: DataView | undefined;
+
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const tag = readTag(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    if (tag === 'fmt ') {
+      const encoding = view.getUint16(offset + 8, true);
+      format = {
+        // WAVE_FORMAT_EXTENSIBLE keeps the actual encoding in its sub-format
+        encoding: encoding === 0xfffe ? view.getUint16(offset + 32, true) : encoding,
+        channels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+        bitsPerSample: view.getUint16(offset + 22, true),
+      };
+    } else if (tag === 'data') {
+      data = new DataView(bytes.buffer, bytes.byteOffset + offset + 8, Math.min(size, bytes.length - offset - 8));
+    }
+    // chunks are padded to an even size
+    offset += 8 + size + (size % 2);
+  }
+
+  if (format == null || data == null) {
+    throw new InvalidArgumentError({ argument: 'audio', message: 'WAV file has no format or data chunk.' });
+  }
+
+  const readSample = getSampleReader(format.encoding, format.bitsPerSample);
+  const bytesPerSample = format.bitsPerSample / 8;
+  const frames = Math.floor(data.byteLength / (bytesPerSample * format.channels));
+  const samples = new Float32Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < format.channels; channel++) {
+      sum += readSample(data, (frame * format.channels + channel) * bytesPerSample);
+    }
+    samples[frame] = sum / format.channels;
+  }
+  return { samples, sampleRate: format.sampleRate };
+}
+
+function getSampleReader(encoding: number, bitsPerSample: number): (data: DataView, offset: number) => number {
+  if (encoding === 1) {
+    switch (bitsPerSample) {
+      case 8:
+        return (data, offset) => (data.getUint8(offset) - 128) / 128;
+      case 16:
+        return (data, offset) => data.getInt16(offset, true) / 32768;
+      case 24:
+        return (data, offset) =>
+          ((data.getInt8(offset + 2) << 16) | (data.getUint8(offset + 1) << 8) | data.getUint8(offset)) / 8388608;
+      case 32:
+        return (data, offset) => data.getInt32(offset, true) / 2147483648;
+    }
+  }
+  if (encoding === 3) {
+    switch (bitsPerSample) {
+      case 32:
+        return (data, offset) => data.getFloat32(offset, true);
+      case 64:
+        return (data, offset) => data.getFloat64(offset, true);
+    }
+  }
+  throw new InvalidArgumentError({
+    argument: 'audio',
+    message: `Unsupported WAV encoding ${encoding} with ${bitsPerSample} bits per sample.`,
+  });
+}
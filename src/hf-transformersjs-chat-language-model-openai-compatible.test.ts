@@ -0,0 +1,192 @@
+// @ts-nocheck
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { HFTransformersjsChatLanguageModelOpenAICompatible } from "./hf-transformersjs-chat-language-model-openai-compatible";
+import { HFTransformersjsCompletionLanguageModelOpenAICompatible } from "./hf-transformersjs-completion-language-model-openai-compatible";
+import { createHFTransformersjs } from "./hf-transformersjs-provider";
+import { createLogger } from "./hf-transformersjs-logger";
+import { pipeline } from "@huggingface/transformers";
+
+vi.mock("@huggingface/transformers", () => {
+  return {
+    pipeline: vi.fn(),
+    TextStreamer: class {
+      constructor(tokenizer, options) {
+        this.tokenizer = tokenizer;
+        this.callback_function = options.callback_function;
+      }
+    },
+  };
+});
+
+describe("HFTransformersjsChatLanguageModelOpenAICompatible", () => {
+  let mockTextGenerationPipeline;
+  let generatedText;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    generatedText = "Hello world";
+
+    mockTextGenerationPipeline = vi.fn().mockImplementation(async (prompt, options) => {
+      options.streamer?.callback_function(generatedText);
+      return [{ generated_text: generatedText }];
+    });
+    mockTextGenerationPipeline.tokenizer = {
+      chat_template: "{{ messages }}",
+      apply_chat_template: vi.fn().mockImplementation((messages, options) =>
+          messages.map(message => `<${message.role}>${message.content}`).join("")
+          + (options.add_generation_prompt ? "<assistant>" : "")),
+      // one token per word
+      encode: vi.fn().mockImplementation(text => text.split(/\s+/).filter(Boolean).map((_, index) => index)),
+    };
+
+    (pipeline as any).mockResolvedValue(mockTextGenerationPipeline);
+  });
+
+  const prompt = [
+    { role: "system", content: "Be brief." },
+    { role: "user", content: [{ type: "text", text: "Hi" }] },
+  ];
+
+  it("should render the messages with the chat template and take OpenAI parameters", async () => {
+    const model = new HFTransformersjsChatLanguageModelOpenAICompatible("test-model", {}, { provider: "hf-test" });
+
+    const result = await model.doGenerate({
+      inputFormat: "messages",
+      mode: { type: "regular" },
+      prompt,
+      providerMetadata: { openaiCompatible: { max_tokens: 20, temperature: 0, stop: "END" } },
+    });
+
+    expect(mockTextGenerationPipeline).toHaveBeenCalledWith(
+        "<system>Be brief.<user>Hi<assistant>",
+        expect.objectContaining({ max_new_tokens: 20, do_sample: false }),
+    );
+    expect(result.rawCall).toEqual({
+      rawPrompt: [{ role: "system", content: "Be brief." }, { role: "user", content: "Hi" }],
+      rawSettings: expect.objectContaining({ max_tokens: 20, temperature: 0, stop: ["END"] }),
+    });
+    expect(JSON.parse(result.request.body)).toMatchObject({ model: "test-model", max_tokens: 20 });
+  });
+
+  it("should take OpenAI messages and treat null parameters as not set", async () => {
+    const model = new HFTransformersjsChatLanguageModelOpenAICompatible("test-model", { maxTokens: 30 }, { provider: "hf-test" });
+
+    const result = await model.doGenerate({
+      inputFormat: "messages",
+      mode: { type: "regular" },
+      prompt: [],
+      providerMetadata: {
+        openaiCompatible: {
+          messages: [{ role: "developer", content: "Be brief." }, { role: "user", content: "Hi" }],
+          max_tokens: null,
+          temperature: null,
+          top_p: null,
+          seed: null,
+          stop: null,
+        },
+      },
+    });
+
+    expect(mockTextGenerationPipeline).toHaveBeenCalledWith(
+        "<system>Be brief.<user>Hi<assistant>",
+        expect.objectContaining({ max_new_tokens: 30 }),
+    );
+    expect(result.rawCall.rawSettings).toMatchObject({ max_tokens: 30, top_p: undefined, seed: undefined, stop: undefined });
+  });
+
+  it("should log through the provider logger", async () => {
+    const sink = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const model = new HFTransformersjsChatLanguageModelOpenAICompatible(
+        "test-model",
+        {},
+        { provider: "hf-test", logger: createLogger({ level: "debug", logger: sink }) },
+    );
+
+    await model.doGenerate({ inputFormat: "messages", mode: { type: "regular" }, prompt });
+
+    expect(sink.debug).toHaveBeenCalledWith("Generation completed", expect.objectContaining({ text: "Hello world" }));
+  });
+
+  it("should return an OpenAI chat completion as the raw response", async () => {
+    const model = new HFTransformersjsChatLanguageModelOpenAICompatible("test-model", {}, { provider: "hf-test" });
+
+    const result = await model.doGenerate({
+      inputFormat: "messages",
+      mode: { type: "regular" },
+      prompt,
+      stopSequences: ["world"],
+    });
+
+    expect(result.text).toBe("Hello ");
+    expect(result.finishReason).toBe("stop");
+    expect(result.response.id).toMatch(/^chatcmpl-/);
+    expect(result.rawResponse.body).toMatchObject({
+      id: result.response.id,
+      object: "chat.completion",
+      model: "test-model",
+      choices: [{ index: 0, message: { role: "assistant", content: "Hello " }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 2, completion_tokens: 1, total_tokens: 3 },
+    });
+  });
+
+  it("should report tool calls with the tool_calls finish reason", async () => {
+    generatedText = '<tool_call>{"name": "weather", "arguments": {"city": "Paris"}}</tool_call>';
+    const model = new HFTransformersjsChatLanguageModelOpenAICompatible("test-model", {}, { provider: "hf-test" });
+
+    const result = await model.doGenerate({
+      inputFormat: "messages",
+      mode: {
+        type: "regular",
+        tools: [{ type: "function", name: "weather", parameters: { type: "object" } }],
+      },
+      prompt,
+    });
+
+    expect(result.finishReason).toBe("tool-calls");
+    expect(result.rawResponse.body.choices[0]).toMatchObject({
+      message: { tool_calls: [{ type: "function", function: { name: "weather", arguments: '{"city":"Paris"}' } }] },
+      finish_reason: "tool_calls",
+    });
+  });
+
+  it("should stream with an OpenAI completion id", async () => {
+    const model = new HFTransformersjsChatLanguageModelOpenAICompatible("test-model", {}, { provider: "hf-test" });
+
+    const { stream } = await model.doStream({ inputFormat: "messages", mode: { type: "regular" }, prompt });
+    const parts = [];
+    for await (const part of stream) {
+      parts.push(part);
+    }
+
+    expect(parts[0]).toMatchObject({ type: "response-metadata", id: expect.stringMatching(/^chatcmpl-/) });
+    expect(parts).toContainEqual({ type: "text-delta", textDelta: "Hello world" });
+    expect(parts.at(-1)).toMatchObject({ type: "finish" });
+  });
+
+  it("should take OpenAI parameters in the completion model", async () => {
+    const model = new HFTransformersjsCompletionLanguageModelOpenAICompatible("test-model", {}, { provider: "hf-test" });
+
+    const result = await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+      providerMetadata: { openaiCompatible: { max_completion_tokens: 5, stop: ["world"] } },
+    });
+
+    expect(mockTextGenerationPipeline).toHaveBeenCalledWith("Hi", expect.objectContaining({ max_new_tokens: 5 }));
+    expect(result.text).toBe("Hello ");
+    expect(result.response.id).toMatch(/^cmpl-/);
+    expect(result.rawResponse.body).toMatchObject({
+      object: "text_completion",
+      choices: [{ text: "Hello ", finish_reason: "stop" }],
+    });
+  });
+
+  it("should be created by the provider", () => {
+    const provider = createHFTransformersjs({ name: "hf-test" });
+
+    expect(provider.openAICompatibleChatModel("test-model")).toBeInstanceOf(HFTransformersjsChatLanguageModelOpenAICompatible);
+    expect(provider.openAICompatibleCompletionModel("test-model"))
+        .toBeInstanceOf(HFTransformersjsCompletionLanguageModelOpenAICompatible);
+  });
+});
@@ -1,267 +1,122 @@
-import {pipeline, TextGenerationOutput, TextGenerationPipeline, TextStreamer} from "@huggingface/transformers";
+import { LanguageModelV1, LanguageModelV1CallOptions } from '@ai-sdk/provider';
+import { generateId } from '@ai-sdk/provider-utils';
+import { convertToHFTransformersjsChatMessages } from './convert-to-hf-transformersjs-chat-messages';
+import { prepareTools } from './hf-transformersjs-prepare-tools';
+import { HFTransformersjsGenerationOptions } from './hf-transformersjs-generation-options';
+import { applyGenerationSettings, HFTransformersjsChatSettings } from './hf-transformersjs-settings';
+import { HFTransformersjsModelConfig, HFTransformersjsWarmupOptions } from './hf-transformersjs-model-config';
+import { HFTransformersjsChatLanguageModel } from './hf-transformersjs-chat-language-model';
 import {
-  LanguageModelV1,
-  LanguageModelV1CallOptions,
-  LanguageModelV1CallWarning,
-  LanguageModelV1FinishReason,
-  LanguageModelV1FunctionToolCall,
-  LanguageModelV1LogProbs,
-  LanguageModelV1Prompt,
-  LanguageModelV1ProviderMetadata,
-  LanguageModelV1Source,
-  LanguageModelV1StreamPart,
-  LanguageModelV1TextPart
-} from '@ai-sdk/provider';
-
+  applyOpenAICompatibleParameters,
+  createOpenAICompatibleChatCompletion,
+  getOpenAICompatibleParameters,
+  mapToOpenAICompatibleFinishReason,
+  withOpenAICompatibleResponseId,
+} from './hf-transformersjs-openai-compatible';
+
+/**
+ * Chat model that behaves like the OpenAI chat completions API. It takes OpenAI messages and
+ * request parameters as `providerMetadata.openaiCompatible` and reports its raw call and response
+ * as OpenAI request and `chat.completion` bodies. Generation is done by
+ * `HFTransformersjsChatLanguageModel`.
+ */
 export class HFTransformersjsChatLanguageModelOpenAICompatible implements LanguageModelV1 {
   readonly specificationVersion = 'v1';
   readonly modelId: string;
-  readonly settings: Record<string, unknown>;
+  readonly settings: HFTransformersjsChatSettings;
   readonly provider: string;
   readonly defaultObjectGenerationMode = 'json';
 
-  // @ts-ignore
-  private config: { provider: string; apiKey?: string };
-  private pipelineInstance?: TextGenerationPipeline;
+  private readonly model: HFTransformersjsChatLanguageModel;
+  private readonly isRemote: boolean;
 
-  constructor(modelId: string, settings: Record<string, unknown>, config: { provider: string; apiKey?: string }) {
+  constructor(modelId: string, settings: HFTransformersjsChatSettings, config: HFTransformersjsModelConfig) {
+    this.model = new HFTransformersjsChatLanguageModel(modelId, settings, config);
     this.modelId = modelId;
-    this.settings = settings;
-    this.config = config;
+    this.settings = this.model.settings;
     this.provider = config.provider;
+    this.isRemote = config.remote != null;
   }
 
-  private async ensurePipeline() {
-    if (!this.pipelineInstance) {
-      this.pipelineInstance = await pipeline("text-generation", this.modelId, {}) as TextGenerationPipeline;
-    }
-    return this.pipelineInstance;
+  /**
+   * Loads the model ahead of the first call, so that calls do not wait for the download.
+   */
+  warmup(options?: HFTransformersjsWarmupOptions): Promise<void> {
+    return this.model.warmup(options);
   }
 
-  doGenerate(options: LanguageModelV1CallOptions): PromiseLike<{
-    text?: string;
-    reasoning?: string | Array<{
-      type: 'text';
-      text: string;
-      signature?: string;
-    } | {
-      type: 'redacted';
-      data: string;
-    }>;
-    toolCalls?: Array<LanguageModelV1FunctionToolCall>;
-    finishReason: LanguageModelV1FinishReason;
-    usage: {
-      promptTokens: number;
-      completionTokens: number;
-    };
-    rawCall: {
-      rawPrompt: unknown;
-      rawSettings: Record<string, unknown>;
-    };
-    rawResponse?: {
-      headers?: Record<string, string>;
-      body?: unknown;
-    };
-    request?: {
-      body?: string;
-    };
-    response?: {
-      id?: string;
-      timestamp?: Date;
-      modelId?: string;
-    };
-    warnings?: LanguageModelV1CallWarning[];
-    providerMetadata?: LanguageModelV1ProviderMetadata;
-    sources?: LanguageModelV1Source[];
-    logprobs?: LanguageModelV1LogProbs;
-  }> {
-    return this.doGenerateImpl(options);
-  }
-
-  private async doGenerateImpl(options: LanguageModelV1CallOptions): Promise<{
-    text?: string;
-    reasoning?: string | Array<{
-      type: 'text';
-      text: string;
-      signature?: string;
-    } | {
-      type: 'redacted';
-      data: string;
-    }>;
-    toolCalls?: Array<LanguageModelV1FunctionToolCall>;
-    finishReason: LanguageModelV1FinishReason;
-    usage: {
-      promptTokens: number;
-      completionTokens: number;
-    };
-    rawCall: {
-      rawPrompt: unknown;
-      rawSettings: Record<string, unknown>;
-    };
-    rawResponse?: {
-      headers?: Record<string, string>;
-      body?: unknown;
-    };
-    request?: {
-      body?: string;
-    };
-    response?: {
-      id?: string;
-      timestamp?: Date;
-      modelId?: string;
-    };
-    warnings?: LanguageModelV1CallWarning[];
-    providerMetadata?: LanguageModelV1ProviderMetadata;
-    sources?: LanguageModelV1Source[];
-    logprobs?: LanguageModelV1LogProbs;
-  }> {
-    const pn = await this.ensurePipeline();
-    const promptText = this.convertPromptToString(options.prompt);
-
-    const generationOptions = {
-      max_new_tokens: options.maxTokens ?? 512,
-      do_sample: (options.temperature ?? 0) > 0,
-      temperature: options.temperature ?? 0,
-    };
-
-    const res = await pn(promptText, generationOptions);
-    const result: TextGenerationOutput[] = Array.isArray(res) ? res as TextGenerationOutput[] : [res];
-
-    // Estimate token counts (basic approximation)
-    const promptTokens = Math.ceil(promptText.length / 4); // Very rough estimate
-    const completionTokens = Math.ceil(result[0][-1].generated_text.toString().length / 4); // Very rough estimate
+  async doGenerate(options: LanguageModelV1CallOptions): Promise<Awaited<ReturnType<LanguageModelV1['doGenerate']>>> {
+    const callOptions = this.getCallOptions(options);
+    const result = await this.model.doGenerate(callOptions);
+    // Remote servers answer in the OpenAI format already
+    if (this.isRemote) {
+      return result;
+    }
 
+    const { messages, parameters, tools } = this.getRequest(callOptions, result.rawCall.rawSettings);
+    const id = `chatcmpl-${generateId()}`;
+    const timestamp = new Date();
     return {
-      text: result[0][-1].generated_text.toString(),
-      finishReason: "stop" as LanguageModelV1FinishReason,
-      usage: {
-        promptTokens,
-        completionTokens
-      },
+      ...result,
       rawCall: {
-        rawPrompt: promptText,
-        rawSettings: generationOptions
+        rawPrompt: messages,
+        rawSettings: parameters,
       },
       rawResponse: {
-        body: result
+        body: createOpenAICompatibleChatCompletion({
+          id,
+          created: timestamp,
+          modelId: this.modelId,
+          text: result.text,
+          toolCalls: result.toolCalls ?? [],
+          finishReason: mapToOpenAICompatibleFinishReason(result.finishReason),
+          usage: result.usage,
+        }),
       },
       request: {
-        body: JSON.stringify({ prompt: promptText, ...generationOptions })
-      }
-    };
-  }
-
-  doStream(options: LanguageModelV1CallOptions): PromiseLike<{
-    stream: ReadableStream<LanguageModelV1StreamPart>;
-    rawCall: {
-      rawPrompt: unknown;
-      rawSettings: Record<string, unknown>;
+        body: JSON.stringify({ model: this.modelId, messages, ...parameters, tools }),
+      },
+      response: {
+        id,
+        timestamp,
+        modelId: this.modelId,
+      },
     };
-    rawResponse?: {
-      headers?: Record<string, string> | undefined;
-    } | undefined;
-    request?: { body: string };
-    warnings?: LanguageModelV1CallWarning[];
-  }> {
-    return this.doStreamImplementation(options);
   }
 
-  private async doStreamImplementation(options: LanguageModelV1CallOptions): Promise<{
-    stream: ReadableStream<LanguageModelV1StreamPart>;
-    rawCall: {
-      rawPrompt: unknown;
-      rawSettings: Record<string, unknown>;
-    };
-    rawResponse?: {
-      headers?: Record<string, string> | undefined;
-    } | undefined;
-    request?: { body: string };
-    warnings?: LanguageModelV1CallWarning[];
-  }> {
-    const pn = await this.ensurePipeline();
-    const promptText = this.convertPromptToString(options.prompt);
-
-    const generationOptions = {
-      max_new_tokens: options.maxTokens ?? 512,
-      do_sample: (options.temperature ?? 0) > 0,
-      temperature: options.temperature ?? 0,
-    };
-
-    // Create a ReadableStream to return tokens
-    const stream = new ReadableStream<LanguageModelV1StreamPart>({
-      start: async (controller) => {
-        try {
-          // Create a callback function that writes to the stream
-          const tokenCallback = (token: string) => {
-            if (token) {
-              controller.enqueue({ type: 'text-delta', textDelta: token });
-            }
-          };
-
-          // Create a TextStreamer with our callback
-          const streamer = new TextStreamer(pn.tokenizer, {
-            skip_prompt: true,
-            callback_function: tokenCallback,
-          });
-
-          // Add streamer to generation options
-          const streamerOptions = {
-            ...generationOptions,
-            streamer,
-          };
-
-          // Run the generation with streaming
-          const result = await pn(promptText, streamerOptions);
-
-          // Signal completion
-          controller.close();
-
-          // Store the result for returning later
-          return result;
-        } catch (error) {
-          controller.error(error);
-        }
-      }
-    });
+  async doStream(options: LanguageModelV1CallOptions): Promise<Awaited<ReturnType<LanguageModelV1['doStream']>>> {
+    const callOptions = this.getCallOptions(options);
+    const result = await this.model.doStream(callOptions);
+    if (this.isRemote) {
+      return result;
+    }
 
+    const { messages, parameters, tools } = this.getRequest(callOptions, result.rawCall.rawSettings);
     return {
-      stream,
+      ...result,
+      stream: withOpenAICompatibleResponseId(result.stream, 'chatcmpl'),
       rawCall: {
-        rawPrompt: promptText,
-        rawSettings: generationOptions
+        rawPrompt: messages,
+        rawSettings: parameters,
       },
-      rawResponse: {
-        headers: {}
+      request: {
+        body: JSON.stringify({ model: this.modelId, messages, ...parameters, tools, stream: true }),
       },
-      request: { body: JSON.stringify({ prompt: promptText, ...generationOptions }) }
     };
   }
 
-  // Helper method to convert LanguageModelV1Prompt to string
-  private convertPromptToString(prompt: LanguageModelV1Prompt): string {
-    if (typeof prompt === 'string') {
-      return prompt;
-    }
-
-    // Handle array of messages
-    if (Array.isArray(prompt)) {
-      return prompt.map(message => {
-        // Check if content is an array of parts
-        if (Array.isArray(message.content)) {
-          // Extract text parts only
-          return message.content
-              .filter((part): part is LanguageModelV1TextPart => 'text' in part)
-              .map(part => part.text)
-              .join(" ");
-        }
-        // Legacy format with string content
-        else if (typeof message.content === 'string') {
-          return `${message.role}: ${message.content}`;
-        }
-        return "";
-      }).join("\n");
-    }
+  // The model settings are applied here as well, so that the reported parameters include them
+  private getCallOptions(options: LanguageModelV1CallOptions): LanguageModelV1CallOptions {
+    return applyGenerationSettings(applyOpenAICompatibleParameters(options), this.settings);
+  }
 
-    return "";
+  // The call as an OpenAI chat completions request; the base model reports its generation config
+  // as the raw settings
+  private getRequest(options: LanguageModelV1CallOptions, rawSettings: Record<string, unknown>) {
+    return {
+      messages: convertToHFTransformersjsChatMessages(options.prompt),
+      parameters: getOpenAICompatibleParameters(options, rawSettings as HFTransformersjsGenerationOptions),
+      tools: options.mode.type === 'regular' ? prepareTools({ mode: options.mode }).tools : undefined,
+    };
   }
-}
\ No newline at end of file
+}
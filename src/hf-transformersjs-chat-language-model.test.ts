@@ -1,6 +1,7 @@
 // @ts-nocheck
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { HFTransformersjsChatLanguageModel } from "./hf-transformersjs-chat-language-model";
+import { createLogger } from "./hf-transformersjs-logger";
 import { pipeline, TextStreamer } from "@huggingface/transformers";
 import {LanguageModelV1CallOptions, LanguageModelV1Prompt, LanguageModelV1TextPart} from "@ai-sdk/provider";
 
@@ -25,11 +26,14 @@ describe("HFTransformersjsChatLanguageModel", () => {
   let mockTextGenerationPipeline;
 
   const fakePipelineResultNonStreaming = [
-    {
-      [-1]: { generated_text: "Hello (generated)" }
-    }
+    { generated_text: "Hello (generated)" }
   ];
 
+  // Renders messages as "<role>content" and appends the generation prompt
+  const fakeApplyChatTemplate = (messages, options) =>
+      messages.map(message => `<${message.role}>${message.content}`).join("")
+      + (options.add_generation_prompt ? "<assistant>" : "");
+
   beforeEach(() => {
     // Reset the mock before each test.
     vi.clearAllMocks();
@@ -47,6 +51,13 @@ describe("HFTransformersjsChatLanguageModel", () => {
       return fakePipelineResultNonStreaming;
     });
 
+    mockTextGenerationPipeline.tokenizer = {
+      chat_template: "{{ messages }}",
+      apply_chat_template: vi.fn().mockImplementation(fakeApplyChatTemplate),
+      // one token per word
+      encode: vi.fn().mockImplementation(text => text.split(/\s+/).filter(Boolean).map((_, index) => index)),
+    };
+
     // Mock the pipeline factory function
     (pipeline as any).mockResolvedValue(mockTextGenerationPipeline);
   });
@@ -55,7 +66,7 @@ describe("HFTransformersjsChatLanguageModel", () => {
     const model = new HFTransformersjsChatLanguageModel(
         "test-model",
         {},
-        { provider: "hf-test", apiKey: "dummy" }
+        { provider: "hf-test" }
     );
 
     const prompt: LanguageModelV1Prompt = [
@@ -69,6 +80,11 @@ describe("HFTransformersjsChatLanguageModel", () => {
     });
 
     expect(result.text).toBe("Hello (generated)");
+    expect(mockTextGenerationPipeline).toHaveBeenCalledWith(
+        "<user>Hello<assistant>",
+        expect.objectContaining({ return_full_text: false })
+    );
+    expect(result.usage).toEqual({ promptTokens: 1, completionTokens: 2 });
     const expectedSettings = {
       max_new_tokens: 100,
       do_sample: false, // because temperature === 0
@@ -81,7 +97,7 @@ describe("HFTransformersjsChatLanguageModel", () => {
     const model = new HFTransformersjsChatLanguageModel(
         "test-model",
         {},
-        { provider: "hf-test", apiKey: "dummy" }
+        { provider: "hf-test" }
     );
 
     const promptMessages = [
@@ -95,9 +111,13 @@ describe("HFTransformersjsChatLanguageModel", () => {
       temperature: 0.5,
     });
 
-    // The implementation formats messages appropriately
+    // The messages are rendered through the tokenizer's chat template
+    expect(mockTextGenerationPipeline.tokenizer.apply_chat_template).toHaveBeenCalledWith(
+        promptMessages,
+        expect.objectContaining({ tokenize: false, add_generation_prompt: true })
+    );
     expect(mockTextGenerationPipeline).toHaveBeenCalledWith(
-        expect.stringContaining("Hello"),
+        "<user>Hello<assistant>Hi<assistant>",
         expect.objectContaining({
           max_new_tokens: 200,
           do_sample: true,
@@ -107,15 +127,122 @@ describe("HFTransformersjsChatLanguageModel", () => {
     expect(result.text).toBe("Hello (generated)");
   });
 
+  it("should translate the sampling settings", async () => {
+    const model = new HFTransformersjsChatLanguageModel(
+        "test-model",
+        {},
+        { provider: "hf-test" }
+    );
+
+    const result = await model.doGenerate({
+      prompt: [{ role: "user", content: [{ type: "text", text: "Hello" }] }],
+      maxTokens: 20,
+      temperature: 0.8,
+      topP: 0.9,
+      topK: 40,
+      presencePenalty: 0.5,
+      frequencyPenalty: 0.25,
+      seed: 123,
+    });
+
+    // the sampling logits processor applies the settings that transformers.js does not know
+    expect(result.rawCall.rawSettings).toEqual({
+      max_new_tokens: 20,
+      do_sample: true,
+      temperature: 0.8,
+    });
+    expect(mockTextGenerationPipeline).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ logits_processor: [expect.any(Function)] })
+    );
+    expect(mockTextGenerationPipeline.mock.calls[0][1]).not.toHaveProperty("presence_penalty");
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("should merge the model settings with the call options", async () => {
+    const model = new HFTransformersjsChatLanguageModel(
+        "test-model",
+        { dtype: "q4", device: "webgpu", maxTokens: 64, temperature: 0.7, topK: 10 },
+        { provider: "hf-test" }
+    );
+
+    const result = await model.doGenerate({
+      prompt: [{ role: "user", content: [{ type: "text", text: "Hello" }] }],
+      temperature: 0,
+    });
+
+    expect(pipeline).toHaveBeenCalledWith("text-generation", "test-model", expect.objectContaining({
+      dtype: "q4",
+      device: "webgpu",
+      revision: "main",
+    }));
+    expect(result.rawCall.rawSettings).toEqual({
+      max_new_tokens: 64,
+      do_sample: false,
+      temperature: 0,
+    });
+    expect(result.warnings).toEqual([expect.objectContaining({ type: "unsupported-setting", setting: "topK" })]);
+  });
+
+  it("should warn about settings that local models ignore", async () => {
+    const model = new HFTransformersjsChatLanguageModel(
+        "test-model",
+        {},
+        { provider: "hf-test" }
+    );
+
+    const result = await model.doGenerate({
+      prompt: [{ role: "user", content: [{ type: "text", text: "Hello" }] }],
+      temperature: 0,
+      topP: 0.9,
+      seed: 1,
+      headers: { "x-request-id": "1" },
+    });
+
+    expect(result.warnings.map(warning => warning.setting)).toEqual(["topP", "seed", "headers"]);
+    expect(mockTextGenerationPipeline).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ logits_processor: [] })
+    );
+  });
+
+  it("should reject invalid settings", () => {
+    expect(() => new HFTransformersjsChatLanguageModel(
+        "test-model",
+        { dtype: "fp64" },
+        { provider: "hf-test" }
+    )).toThrow(/Type validation failed/);
+  });
+
+  it("should keep prompts and generated text out of redacted logs", async () => {
+    const sink = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const model = new HFTransformersjsChatLanguageModel(
+        "test-model",
+        {},
+        { provider: "hf-test", logger: createLogger({ level: "debug", redact: true, logger: sink }) }
+    );
+
+    await model.doGenerate({
+      prompt: [{ role: "user", content: [{ type: "text", text: "my secret" }] }],
+      maxTokens: 10,
+      temperature: 0,
+    });
+
+    const logged = JSON.stringify(sink.debug.mock.calls);
+    expect(sink.debug).toHaveBeenCalled();
+    expect(logged).not.toContain("my secret");
+    expect(logged).not.toContain("Hello (generated)");
+  });
+
   it("should handle prompts with content as an array of parts", async () => {
     const model = new HFTransformersjsChatLanguageModel(
         "test-model",
         {},
-        { provider: "hf-test", apiKey: "dummy" }
+        { provider: "hf-test" }
     );
 
-    const textPart1: LanguageModelV1TextPart = { text: "Hello" };
-    const textPart2: LanguageModelV1TextPart = { text: "world" };
+    const textPart1: LanguageModelV1TextPart = { type: "text", text: "Hello " };
+    const textPart2: LanguageModelV1TextPart = { type: "text", text: "world" };
 
     const promptMessages = [
       { role: "user", content: [textPart1, textPart2] },
@@ -128,17 +255,199 @@ describe("HFTransformersjsChatLanguageModel", () => {
     });
 
     expect(mockTextGenerationPipeline).toHaveBeenCalledWith(
-        "Hello world",
+        "<user>Hello world<assistant>",
         expect.anything()
     );
     expect(result.text).toBe("Hello (generated)");
   });
 
+  it("should render system, assistant and tool messages with their roles", async () => {
+    const model = new HFTransformersjsChatLanguageModel(
+        "test-model",
+        {},
+        { provider: "hf-test" }
+    );
+
+    await model.doGenerate({
+      prompt: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: [{ type: "text", text: "Weather?" }] },
+        { role: "assistant", content: [{ type: "text", text: "Checking." }] },
+        {
+          role: "tool",
+          content: [{ type: "tool-result", toolCallId: "call-1", toolName: "weather", result: { temp: 21 } }]
+        },
+      ],
+      maxTokens: 50,
+      temperature: 0,
+    });
+
+    expect(mockTextGenerationPipeline.tokenizer.apply_chat_template).toHaveBeenCalledWith(
+        [
+          { role: "system", content: "Be brief." },
+          { role: "user", content: "Weather?" },
+          { role: "assistant", content: "Checking." },
+          { role: "tool", tool_call_id: "call-1", name: "weather", content: "{\"temp\":21}" },
+        ],
+        expect.objectContaining({ add_generation_prompt: true })
+    );
+  });
+
+  it("should fall back to a configured chat template with a warning", async () => {
+    mockTextGenerationPipeline.tokenizer.chat_template = null;
+
+    const model = new HFTransformersjsChatLanguageModel(
+        "test-model",
+        { fallbackChatTemplate: "{{ custom }}" },
+        { provider: "hf-test" }
+    );
+
+    const result = await model.doGenerate({
+      prompt: [{ role: "user", content: "Hello" }],
+      maxTokens: 50,
+      temperature: 0,
+    });
+
+    expect(mockTextGenerationPipeline.tokenizer.apply_chat_template).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ chat_template: "{{ custom }}" })
+    );
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ type: "other" })
+    ]);
+  });
+
+  it("should pass tools to the chat template and parse tool calls", async () => {
+    mockTextGenerationPipeline.mockResolvedValue([
+      { generated_text: '<tool_call>{"name": "weather", "arguments": {"city": "Paris"}}</tool_call>' }
+    ]);
+
+    const model = new HFTransformersjsChatLanguageModel(
+        "test-model",
+        {},
+        { provider: "hf-test" }
+    );
+
+    const result = await model.doGenerate({
+      mode: {
+        type: "regular",
+        tools: [{
+          type: "function",
+          name: "weather",
+          description: "Get the weather",
+          parameters: { type: "object", properties: { city: { type: "string" } } },
+        }],
+      },
+      prompt: [{ role: "user", content: [{ type: "text", text: "Weather in Paris?" }] }],
+      maxTokens: 50,
+      temperature: 0,
+    });
+
+    expect(mockTextGenerationPipeline.tokenizer.apply_chat_template).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          tools: [{
+            type: "function",
+            function: {
+              name: "weather",
+              description: "Get the weather",
+              parameters: { type: "object", properties: { city: { type: "string" } } },
+            },
+          }],
+        })
+    );
+    expect(result.finishReason).toBe("tool-calls");
+    expect(result.text).toBe("");
+    expect(result.toolCalls).toEqual([{
+      toolCallType: "function",
+      toolCallId: expect.any(String),
+      toolName: "weather",
+      args: '{"city":"Paris"}',
+    }]);
+  });
+
+  it("should constrain object-tool generation and return the forced tool call", async () => {
+    mockTextGenerationPipeline.mockResolvedValue([{ generated_text: '{"city": "Paris"}' }]);
+    mockTextGenerationPipeline.model = { generation_config: { eos_token_id: 2 } };
+    Object.assign(mockTextGenerationPipeline.tokenizer, {
+      encode: (text) => [...text].map(char => char.charCodeAt(0)),
+      decode: (ids) => String.fromCharCode(...ids),
+    });
+
+    const model = new HFTransformersjsChatLanguageModel(
+        "test-model",
+        {},
+        { provider: "hf-test" }
+    );
+
+    const parameters = { type: "object", properties: { city: { type: "string" } }, required: ["city"] };
+    const result = await model.doGenerate({
+      mode: {
+        type: "object-tool",
+        tool: { type: "function", name: "json", description: "Extract the city", parameters },
+      },
+      prompt: [{ role: "user", content: [{ type: "text", text: "I live in Paris." }] }],
+      maxTokens: 50,
+      temperature: 0,
+    });
+
+    const [messages] = mockTextGenerationPipeline.tokenizer.apply_chat_template.mock.calls[0];
+    expect(messages[0]).toEqual({
+      role: "system",
+      content: expect.stringContaining("Extract the city"),
+    });
+    expect(mockTextGenerationPipeline).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ logits_processor: [expect.any(Function)] })
+    );
+    expect(result.text).toBeUndefined();
+    expect(result.finishReason).toBe("tool-calls");
+    expect(result.toolCalls).toEqual([{
+      toolCallType: "function",
+      toolCallId: expect.any(String),
+      toolName: "json",
+      args: '{"city": "Paris"}',
+    }]);
+  });
+
+  it("should render assistant tool calls back to the chat template", async () => {
+    const model = new HFTransformersjsChatLanguageModel(
+        "test-model",
+        {},
+        { provider: "hf-test" }
+    );
+
+    await model.doGenerate({
+      mode: { type: "regular" },
+      prompt: [
+        { role: "user", content: [{ type: "text", text: "Weather?" }] },
+        {
+          role: "assistant",
+          content: [{ type: "tool-call", toolCallId: "call-1", toolName: "weather", args: { city: "Paris" } }]
+        },
+      ],
+      maxTokens: 50,
+      temperature: 0,
+    });
+
+    expect(mockTextGenerationPipeline.tokenizer.apply_chat_template).toHaveBeenCalledWith(
+        [
+          { role: "user", content: "Weather?" },
+          {
+            role: "assistant",
+            content: "",
+            tool_calls: [{ id: "call-1", type: "function", function: { name: "weather", arguments: { city: "Paris" } } }],
+          },
+        ],
+        expect.anything()
+    );
+  });
+
   it("should stream tokens with doStream", async () => {
     const model = new HFTransformersjsChatLanguageModel(
         "test-model",
         {},
-        { provider: "hf-test", apiKey: "dummy" }
+        { provider: "hf-test" }
     );
 
     const prompt: LanguageModelV1Prompt = [
@@ -162,14 +471,25 @@ describe("HFTransformersjsChatLanguageModel", () => {
     }
 
     expect(tokens).toEqual([
+      {
+        type: 'response-metadata',
+        id: expect.any(String),
+        timestamp: expect.any(Date),
+        modelId: 'test-model'
+      },
       { type: 'text-delta', textDelta: 'Hello' },
       { type: 'text-delta', textDelta: ' ' },
       { type: 'text-delta', textDelta: 'world' },
-      { type: 'text-delta', textDelta: '!' }
+      { type: 'text-delta', textDelta: '!' },
+      {
+        type: 'finish',
+        finishReason: expect.any(String),
+        usage: { promptTokens: expect.any(Number), completionTokens: expect.any(Number) }
+      }
     ]);
 
     expect(mockTextGenerationPipeline).toHaveBeenCalledWith(
-        expect.stringContaining("Hello"),
+        "<user>Hello<assistant>",
         expect.objectContaining({
           max_new_tokens: 50,
           do_sample: true,
@@ -178,4 +498,189 @@ describe("HFTransformersjsChatLanguageModel", () => {
         })
     );
   });
-});
\ No newline at end of file
+
+  it("should stop at stop sequences without leaking them into the stream", async () => {
+    mockTextGenerationPipeline.mockImplementation(async (prompt, options) => {
+      for (const token of ["The answer", " is 42<", "/ans", "wer> and more"]) {
+        options.streamer?.callback_function(token);
+      }
+      return [{ generated_text: "The answer is 42</answer> and more" }];
+    });
+
+    const model = new HFTransformersjsChatLanguageModel(
+        "test-model",
+        {},
+        { provider: "hf-test" }
+    );
+    const callOptions = {
+      prompt: [{ role: "user", content: [{ type: "text", text: "Question?" }] }],
+      maxTokens: 50,
+      temperature: 0,
+      stopSequences: ["</answer>"],
+    };
+
+    const result = await model.doGenerate(callOptions);
+    expect(result.text).toBe("The answer is 42");
+    expect(result.finishReason).toBe("stop");
+    expect(mockTextGenerationPipeline).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ stopping_criteria: [expect.any(Function), expect.any(Function)] })
+    );
+
+    const { stream } = await model.doStream(callOptions);
+    const parts = [];
+    for await (const part of stream) {
+      parts.push(part);
+    }
+    expect(parts).toEqual([
+      expect.objectContaining({ type: "response-metadata" }),
+      { type: "text-delta", textDelta: "The answer" },
+      { type: "text-delta", textDelta: " is 42" },
+      expect.objectContaining({ type: "finish", finishReason: "stop" }),
+    ]);
+  });
+
+  it("should report why generation ended", async () => {
+    // Generates `tokens` after a two token prompt, calling the stopping criteria after every step
+    const generate = (tokens) => async (prompt, options) => {
+      const ids = [0n, 1n];
+      for (const token of tokens) {
+        ids.push(token);
+        for (const criterion of options.stopping_criteria) {
+          criterion([ids]);
+        }
+      }
+      return [{ generated_text: "text" }];
+    };
+    mockTextGenerationPipeline.model = { generation_config: { eos_token_id: 2 } };
+
+    const model = new HFTransformersjsChatLanguageModel(
+        "test-model",
+        {},
+        { provider: "hf-test" }
+    );
+    const callOptions = {
+      prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+      maxTokens: 3,
+      temperature: 0,
+    };
+
+    mockTextGenerationPipeline.mockImplementation(generate([5n, 2n]));
+    expect((await model.doGenerate(callOptions)).finishReason).toBe("stop");
+
+    mockTextGenerationPipeline.mockImplementation(generate([5n, 6n, 7n]));
+    const result = await model.doGenerate(callOptions);
+    expect(result.finishReason).toBe("length");
+    // counted from the generated ids rather than the decoded text:
+    expect(result.usage.completionTokens).toBe(3);
+
+    const { stream } = await model.doStream(callOptions);
+    const parts = [];
+    for await (const part of stream) {
+      parts.push(part);
+    }
+    expect(parts.at(-1)).toEqual(expect.objectContaining({ type: "finish", finishReason: "length" }));
+  });
+
+  it("should surface generation errors as error parts", async () => {
+    const error = new Error("out of memory");
+    mockTextGenerationPipeline.mockRejectedValue(error);
+
+    const model = new HFTransformersjsChatLanguageModel(
+        "test-model",
+        {},
+        { provider: "hf-test" }
+    );
+
+    const { stream } = await model.doStream({
+      prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+      maxTokens: 10,
+      temperature: 0,
+    });
+    const parts = [];
+    for await (const part of stream) {
+      parts.push(part);
+    }
+
+    expect(parts).toEqual([
+      expect.objectContaining({ type: "response-metadata" }),
+      { type: "error", error },
+    ]);
+  });
+
+  it("should stop generating when the abort signal fires", async () => {
+    const controller = new AbortController();
+    // Aborts after the second token, calling the stopping criteria after every step
+    mockTextGenerationPipeline.mockImplementation(async (prompt, options) => {
+      const ids = [0n];
+      for (const token of ["Hello", " world", "!"]) {
+        ids.push(1n);
+        options.streamer?.callback_function(token);
+        if (ids.length === 3) {
+          controller.abort();
+        }
+        if (options.stopping_criteria.some(criterion => criterion([ids])[0])) {
+          break;
+        }
+      }
+      return [{ generated_text: "Hello world" }];
+    });
+
+    const model = new HFTransformersjsChatLanguageModel(
+        "test-model",
+        {},
+        { provider: "hf-test" }
+    );
+    const callOptions = {
+      prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+      maxTokens: 10,
+      temperature: 0,
+      abortSignal: controller.signal,
+    };
+
+    await expect(model.doGenerate(callOptions)).rejects.toMatchObject({ name: "AbortError" });
+
+    const streamController = new AbortController();
+    callOptions.abortSignal = streamController.signal;
+    mockTextGenerationPipeline.mockImplementation(async (prompt, options) => {
+      options.streamer.callback_function("Hello");
+      streamController.abort();
+      expect(options.stopping_criteria.some(criterion => criterion([[0n, 1n]])[0])).toBe(true);
+      return [{ generated_text: "Hello" }];
+    });
+
+    const { stream } = await model.doStream(callOptions);
+    const parts = [];
+    for await (const part of stream) {
+      parts.push(part);
+    }
+    expect(parts.map(part => part.type)).toEqual(["response-metadata", "text-delta", "error"]);
+    expect(parts.at(-1).error).toMatchObject({ name: "AbortError" });
+  });
+
+  it("should stop waiting for the pipeline to load when aborted", async () => {
+    let resolveLoad;
+    (pipeline as any).mockReturnValue(new Promise(resolve => { resolveLoad = resolve; }));
+
+    const model = new HFTransformersjsChatLanguageModel(
+        "test-model",
+        {},
+        { provider: "hf-test" }
+    );
+    const controller = new AbortController();
+    const callOptions = {
+      prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+      maxTokens: 10,
+      temperature: 0,
+    };
+
+    const aborted = model.doGenerate({ ...callOptions, abortSignal: controller.signal });
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+
+    // the load carries on and is reused by the next call:
+    resolveLoad(mockTextGenerationPipeline);
+    expect((await model.doGenerate(callOptions)).text).toBe("Hello (generated)");
+    expect(pipeline).toHaveBeenCalledTimes(1);
+  });
+});
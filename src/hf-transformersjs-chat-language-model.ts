@@ -1,55 +1,107 @@
 // src/hf-transformersjs-chat-language-model.ts
-import {pipeline, TextGenerationOutput, TextGenerationPipeline, TextStreamer} from "@huggingface/transformers";
+import {TextGenerationOutput, TextGenerationPipeline, TextStreamer} from "@huggingface/transformers";
 import {
   LanguageModelV1,
   LanguageModelV1CallOptions,
   LanguageModelV1CallWarning, LanguageModelV1FinishReason, LanguageModelV1FunctionToolCall, LanguageModelV1LogProbs,
   LanguageModelV1Prompt, LanguageModelV1ProviderMetadata, LanguageModelV1Source,
-  LanguageModelV1StreamPart,
-  LanguageModelV1TextPart
+  LanguageModelV1StreamPart
 } from '@ai-sdk/provider';
+import { generateId } from '@ai-sdk/provider-utils';
+import { convertToHFTransformersjsChatMessages } from './convert-to-hf-transformersjs-chat-messages';
+import { applyChatTemplate } from './hf-transformersjs-chat-template';
+import { HFTransformersjsChatTool, prepareTools } from './hf-transformersjs-prepare-tools';
+import { parseToolCalls } from './parse-hf-transformersjs-tool-calls';
+import { createObjectToolCall, prepareObjectGeneration } from './hf-transformersjs-object-generation';
+import { getEosTokenIds, getObjectGenerationLogitsProcessors } from './hf-transformersjs-logits-processors';
+import { prepareGenerationOptions } from './hf-transformersjs-generation-options';
+import {
+  createStopSequencesFilter,
+  getStopSequencesStoppingCriteria,
+  trimAtStopSequence
+} from './hf-transformersjs-stop-sequences';
+import { createGenerationTracker } from './hf-transformersjs-generation-tracker';
+import { getAbortStoppingCriteria, throwIfAborted } from './hf-transformersjs-abort';
+import {
+  applyGenerationSettings,
+  getPipelineOptions,
+  HFTransformersjsChatSettings,
+  parseChatSettings,
+} from './hf-transformersjs-settings';
+import { HFTransformersjsModelConfig, HFTransformersjsWarmupOptions } from './hf-transformersjs-model-config';
+import { HFTransformersjsRemoteChatLanguageModel } from './hf-transformersjs-remote-chat-language-model';
+import { createPipelineRegistry, HFTransformersjsPipelineRegistry } from './hf-transformersjs-pipeline-registry';
+import { createProgressListener } from './hf-transformersjs-progress';
+import { createLogger, HFTransformersjsModelLogger } from './hf-transformersjs-logger';
 
 export class HFTransformersjsChatLanguageModel implements LanguageModelV1 {
   readonly specificationVersion = 'v1';
   readonly modelId: string;
-  readonly settings: Record<string, unknown>;
+  readonly settings: HFTransformersjsChatSettings;
   readonly provider: string;
   readonly defaultObjectGenerationMode = 'json';
 
-  // @ts-ignore
-  private config: { provider: string; apiKey?: string };
-  // Hold our pipeline instance once loaded.
-  private pipelineInstance?: TextGenerationPipeline;
+  private config: HFTransformersjsModelConfig;
+  private readonly remoteModel?: HFTransformersjsRemoteChatLanguageModel;
+  private readonly pipelineRegistry: HFTransformersjsPipelineRegistry;
+  private readonly logger: HFTransformersjsModelLogger;
 
-  constructor(modelId: string, settings: Record<string, unknown>, config: { provider: string; apiKey?: string }) {
-    console.log(`[DEBUG] Initializing HFTransformersjsChatLanguageModel with modelId: ${modelId}`);
+  constructor(modelId: string, settings: HFTransformersjsChatSettings, config: HFTransformersjsModelConfig) {
     this.modelId = modelId;
-    this.settings = settings;
+    this.settings = parseChatSettings(settings);
     this.config = config;
+    this.pipelineRegistry = config.pipelineRegistry ?? createPipelineRegistry();
+    this.logger = config.logger ?? createLogger();
     this.provider = config.provider;
+    this.remoteModel = config.remote != null
+      ? new HFTransformersjsRemoteChatLanguageModel(modelId, this.settings, config.remote)
+      : undefined;
   }
 
-  // Lazy-load the text generation pipeline.
-  private async ensurePipeline() {
-    console.log('[DEBUG] ensurePipeline() called');
-    if (!this.pipelineInstance) {
-      console.log(`[DEBUG] Pipeline not initialized, loading model: ${this.modelId}`);
-      try {
-        // @ts-ignore
-        this.pipelineInstance = await pipeline("text-generation", this.modelId, {
-          progress_callback: (progress) => {
-            console.log(`[DEBUG] Model loading progress: ${JSON.stringify(progress)}%`);
-          }
-        }) as TextGenerationPipeline;
-        console.log(`[DEBUG] Pipeline successfully loaded`);
-      } catch (error) {
-        console.error(`[ERROR] Failed to load pipeline:`, error);
+  // Pipelines are shared through the registry and have to be released once the call is done
+  private acquirePipeline(
+      abortSignal?: AbortSignal,
+      onProgress?: HFTransformersjsWarmupOptions['onProgress'],
+  ) {
+    return this.pipelineRegistry.acquire<TextGenerationPipeline>({
+      task: 'text-generation',
+      modelId: this.modelId,
+      options: getPipelineOptions(this.settings),
+      abortSignal,
+      onProgress: createProgressListener(this.modelId, [
+        this.config.onProgress,
+        this.settings.onProgress,
+        onProgress,
+      ]),
+    }).then(
+      (lease) => {
+        this.logger.debug('Pipeline acquired', { modelId: this.modelId });
+        return lease;
+      },
+      (error) => {
+        this.logger.error('Failed to load pipeline', { modelId: this.modelId, error });
         throw error;
       }
-    } else {
-      console.log('[DEBUG] Using existing pipeline instance');
+    );
+  }
+
+  /**
+   * Loads the model ahead of the first call, so that calls do not wait for the download.
+   */
+  async warmup({ runInference = false, onProgress, abortSignal }: HFTransformersjsWarmupOptions = {}): Promise<void> {
+    // Remote models have nothing to load
+    if (this.remoteModel != null) {
+      return;
+    }
+
+    const { pipeline: pn, release } = await this.acquirePipeline(abortSignal, onProgress);
+    try {
+      if (runInference) {
+        await pn('Hello', { max_new_tokens: 1 });
+      }
+    } finally {
+      release();
     }
-    return this.pipelineInstance;
   }
 
   doGenerate(options: LanguageModelV1CallOptions): PromiseLike<{
@@ -89,8 +141,10 @@ export class HFTransformersjsChatLanguageModel implements LanguageModelV1 {
     sources?: LanguageModelV1Source[];
     logprobs?: LanguageModelV1LogProbs;
   }> {
-    console.log('[DEBUG] doGenerate() called');
-    return this.doGenerateImpl(options);
+    if (this.remoteModel != null) {
+      return this.remoteModel.doGenerate(options);
+    }
+    return this.doGenerateImpl(applyGenerationSettings(options, this.settings));
   }
 
   private async doGenerateImpl(options: LanguageModelV1CallOptions): Promise<{
@@ -130,113 +184,143 @@ export class HFTransformersjsChatLanguageModel implements LanguageModelV1 {
     sources?: LanguageModelV1Source[];
     logprobs?: LanguageModelV1LogProbs;
   }> {
-    console.log('[DEBUG] doGenerateImpl() called with options:', JSON.stringify(options, null, 2));
-
-    console.log('[DEBUG] Getting pipeline...');
-    const pn = await this.ensurePipeline();
-    console.log('[DEBUG] Pipeline retrieved successfully');
-
-    console.log('[DEBUG] Converting prompt to string');
-    const promptText = this.convertPromptToString(options.prompt);
-    console.log('[DEBUG] Prompt converted to string:', promptText.substring(0, 100) + (promptText.length > 100 ? '...' : ''));
-
-    const generationOptions = {
-      max_new_tokens: options.maxTokens ?? 512,
-      do_sample: (options.temperature ?? 0) > 0,
-      temperature: options.temperature ?? 0,
-    };
-    console.log('[DEBUG] Generation options:', generationOptions);
-
-    console.log('[DEBUG] Calling pipeline...');
+    const { pipeline: pn, release } = await this.acquirePipeline(options.abortSignal);
     try {
-      const res = await pn(promptText, generationOptions);
-      console.log('[DEBUG] Pipeline result received');
-      console.log('[DEBUG] Raw pipeline result:', JSON.stringify(res, null, 2));
-
-      // Process the result properly
-      const result: TextGenerationOutput[] = Array.isArray(res) ? res as TextGenerationOutput[] : [res];
-      console.log('[DEBUG] Pipeline result processed');
-
-      // Correctly access the generated_text property
-      // @ts-ignore
-      if (!result || !result[0] || !result[0].generated_text === undefined) {
-        console.error('[ERROR] Unexpected pipeline output format:', result);
-        throw new Error('Unexpected pipeline output format');
-      }
-
-      // Estimate token counts (basic approximation)
-      const promptTokens = Math.ceil(promptText.length / 4); // Very rough estimate
-      // @ts-ignore
-      const generatedText = result[0].generated_text.toString();
-      const completionTokens = Math.ceil(generatedText.length / 4); // Very rough estimate
-
-      console.log('[DEBUG] Generated text length:', generatedText.length);
-      console.log('[DEBUG] First 100 chars of generated text:', generatedText.substring(0, 100) + (generatedText.length > 100 ? '...' : ''));
+      const { tools, toolWarnings } = this.getTools(options);
+      const objectGeneration = prepareObjectGeneration(options);
+      const { promptText, warnings } = this.getPromptText(pn, options.prompt, tools, objectGeneration?.instruction);
+      warnings.push(...toolWarnings);
+      this.logger.debug('Chat template applied', { prompt: this.logger.content(promptText) });
+
+      const { generationOptions, logitsProcessors, warnings: generationWarnings } = prepareGenerationOptions(options);
+      warnings.push(...generationWarnings);
+      const generationTracker = createGenerationTracker({
+        tokenizer: pn.tokenizer,
+        eosTokenIds: getEosTokenIds(pn),
+        maxNewTokens: generationOptions.max_new_tokens,
+      });
+      this.logger.debug('Generating', { generationOptions });
 
-      return {
-        text: generatedText,
-        finishReason: "stop" as LanguageModelV1FinishReason, // Assuming normal completion
-        usage: {
-          promptTokens,
-          completionTokens
-        },
-        rawCall: {
-          rawPrompt: promptText,
-          rawSettings: generationOptions
-        },
-        rawResponse: {
-          body: result
-        },
-        request: {
-          body: JSON.stringify({prompt: promptText, ...generationOptions})
+      try {
+        // Only the newly generated text is returned, not the templated prompt
+        const pipelineOptions = {
+          ...generationOptions,
+          return_full_text: false,
+          logits_processor: [
+            ...getObjectGenerationLogitsProcessors(pn, objectGeneration),
+            ...logitsProcessors,
+          ],
+          stopping_criteria: [
+            ...getStopSequencesStoppingCriteria(pn.tokenizer, options.stopSequences),
+            ...getAbortStoppingCriteria(options.abortSignal),
+            generationTracker.stoppingCriterion,
+          ],
+        };
+        const res = await pn(promptText, pipelineOptions);
+        throwIfAborted(options.abortSignal);
+
+        // A single text prompt gives the outputs of a single sequence
+        const result = (Array.isArray(res) ? res : [res]) as TextGenerationOutput;
+        const rawText = result[0]?.generated_text;
+        if (typeof rawText !== 'string') {
+          throw new Error('Unexpected pipeline output format');
         }
-      };
-    } catch (error) {
-      console.error('[ERROR] Pipeline execution failed:', error);
-      throw error;
+
+        const generatedText = trimAtStopSequence(rawText, options.stopSequences);
+        const { promptTokens, completionTokens } = generationTracker.getUsage({ promptText, generatedText });
+
+        this.logger.debug('Generation completed', { text: this.logger.content(generatedText), completionTokens });
+
+        const { text, toolCalls } = objectGeneration?.tool != null
+          ? { text: undefined, toolCalls: [createObjectToolCall(objectGeneration.tool, generatedText)] }
+          : this.extractToolCalls(generatedText, tools);
+        this.logger.debug('Parsed tool calls', { count: toolCalls.length });
+
+        return {
+          text,
+          toolCalls,
+          finishReason: generationTracker.getFinishReason({
+            hasToolCalls: toolCalls.length > 0,
+            stopSequenceFound: generatedText !== rawText,
+            output: result,
+          }),
+          usage: {
+            promptTokens,
+            completionTokens
+          },
+          rawCall: {
+            rawPrompt: promptText,
+            rawSettings: generationOptions
+          },
+          rawResponse: {
+            body: result
+          },
+          request: {
+            body: JSON.stringify({prompt: promptText, ...generationOptions})
+          },
+          warnings
+        };
+      } catch (error) {
+        this.logger.error('Generation failed', { modelId: this.modelId, error });
+        throw error;
+      }
+    } finally {
+      release();
     }
   }
 
-  // Helper method to convert LanguageModelV1Prompt to string
-  private convertPromptToString(prompt: LanguageModelV1Prompt): string {
-    console.log('[DEBUG] convertPromptToString() called with prompt type:', typeof prompt);
-
-    if (typeof prompt === 'string') {
-      console.log('[DEBUG] Prompt is a string');
-      return prompt;
+  // Render the prompt with the model's own chat template
+  private getPromptText(
+      pn: TextGenerationPipeline,
+      prompt: LanguageModelV1Prompt,
+      tools?: HFTransformersjsChatTool[],
+      instruction?: string
+  ): {
+    promptText: string;
+    warnings: LanguageModelV1CallWarning[];
+  } {
+    const messages = convertToHFTransformersjsChatMessages(prompt);
+    if (instruction != null) {
+      // Extend the system message with the expected output format
+      if (messages[0]?.role === 'system') {
+        messages[0] = { ...messages[0], content: `${messages[0].content}\n\n${instruction}` };
+      } else {
+        messages.unshift({ role: 'system', content: instruction });
+      }
     }
+    this.logger.debug('Converted prompt to chat messages', { roles: messages.map(message => message.role) });
 
-    // Handle array of messages
-    if (Array.isArray(prompt)) {
-      console.log('[DEBUG] Prompt is an array of messages with length:', prompt.length);
-
-      return prompt.map(message => {
-        console.log('[DEBUG] Processing message with role:', message.role);
-        // Check if content is an array of parts
-        if (Array.isArray(message.content)) {
-          console.log('[DEBUG] Message content is an array of parts with length:', message.content.length);
-          // Extract text parts only
-          const result = message.content
-              .filter((part): part is LanguageModelV1TextPart => 'text' in part)
-              .map(part => part.text)
-              .join(" ");
-          console.log('[DEBUG] Extracted text from parts:', result.substring(0, 50) + (result.length > 50 ? '...' : ''));
-          return result;
-        }
-        // Legacy format with string content
-        else if (typeof message.content === 'string') {
-          console.log('[DEBUG] Message content is a string');
-          const result = `${message.role}: ${message.content}`;
-          console.log('[DEBUG] Formatted message:', result.substring(0, 50) + (result.length > 50 ? '...' : ''));
-          return result;
-        }
-        console.log('[DEBUG] Unknown message content format');
-        return "";
-      }).join("\n");
+    const { prompt: promptText, warnings } = applyChatTemplate(pn.tokenizer, messages, {
+      chatTemplate: this.settings.chatTemplate,
+      fallbackChatTemplate: this.settings.fallbackChatTemplate,
+      tools,
+    });
+    return { promptText, warnings };
+  }
+
+  // Tool definitions are only available in regular mode
+  private getTools(options: LanguageModelV1CallOptions): {
+    tools: HFTransformersjsChatTool[] | undefined;
+    toolWarnings: LanguageModelV1CallWarning[];
+  } {
+    if (options.mode?.type !== 'regular') {
+      return { tools: undefined, toolWarnings: [] };
     }
+    return prepareTools({ mode: options.mode });
+  }
 
-    console.log('[DEBUG] Unrecognized prompt format, returning empty string');
-    return "";
+  // Split the generated text into plain text and tool calls
+  private extractToolCalls(generatedText: string, tools: HFTransformersjsChatTool[] | undefined): {
+    text: string;
+    toolCalls: LanguageModelV1FunctionToolCall[];
+  } {
+    if (tools == null) {
+      return { text: generatedText, toolCalls: [] };
+    }
+    return parseToolCalls(generatedText, {
+      format: this.settings.toolCallFormat,
+      toolNames: tools.map(tool => tool.function.name),
+    });
   }
 
   doStream(options: LanguageModelV1CallOptions): PromiseLike<{
@@ -251,8 +335,10 @@ export class HFTransformersjsChatLanguageModel implements LanguageModelV1 {
     request?: { body: string };
     warnings?: LanguageModelV1CallWarning[];
   }> {
-    console.log('[DEBUG] doStream() called');
-    return this.doStreamImplementation(options);
+    if (this.remoteModel != null) {
+      return this.remoteModel.doStream(options);
+    }
+    return this.doStreamImplementation(applyGenerationSettings(options, this.settings));
   }
 
   private async doStreamImplementation(options: LanguageModelV1CallOptions): Promise<{
@@ -267,77 +353,151 @@ export class HFTransformersjsChatLanguageModel implements LanguageModelV1 {
     request?: { body: string };
     warnings?: LanguageModelV1CallWarning[];
   }> {
-    console.log('[DEBUG] doStreamImplementation() called');
-
-    console.log('[DEBUG] Getting pipeline for streaming...');
-    const pn = await this.ensurePipeline();
-    console.log('[DEBUG] Pipeline for streaming retrieved successfully');
-
-    const promptText = this.convertPromptToString(options.prompt);
-    console.log('[DEBUG] Prompt converted to string for streaming');
-
-    const generationOptions = {
-      max_new_tokens: options.maxTokens ?? 512,
-      do_sample: (options.temperature ?? 0) > 0,
-      temperature: options.temperature ?? 0,
-    };
-    console.log('[DEBUG] Streaming generation options:', generationOptions);
-
-    // Create a ReadableStream to return tokens
-    const stream = new ReadableStream<LanguageModelV1StreamPart>({
-      start: async (controller) => {
-        console.log('[DEBUG] Stream start callback executing');
-        try {
-          // Create a callback function that writes to the stream
-          const tokenCallback = (token: string) => {
-            if (token) {
-              console.log(`[DEBUG] Token received: "${token}"`);
-              controller.enqueue({ type: 'text-delta', textDelta: token });
+    const { pipeline: pn, release } = await this.acquirePipeline(options.abortSignal);
+    try {
+      const { tools, toolWarnings } = this.getTools(options);
+      const objectGeneration = prepareObjectGeneration(options);
+      const { promptText, warnings } = this.getPromptText(pn, options.prompt, tools, objectGeneration?.instruction);
+      warnings.push(...toolWarnings);
+      this.logger.debug('Chat template applied', { prompt: this.logger.content(promptText) });
+
+      const { generationOptions, logitsProcessors, warnings: generationWarnings } = prepareGenerationOptions(options);
+      warnings.push(...generationWarnings);
+      const generationTracker = createGenerationTracker({
+        tokenizer: pn.tokenizer,
+        eosTokenIds: getEosTokenIds(pn),
+        maxNewTokens: generationOptions.max_new_tokens,
+      });
+      this.logger.debug('Streaming', { generationOptions });
+
+      // Create a ReadableStream to return tokens
+      const stream = new ReadableStream<LanguageModelV1StreamPart>({
+        start: async (controller) => {
+          try {
+            controller.enqueue({
+              type: 'response-metadata',
+              id: generateId(),
+              timestamp: new Date(),
+              modelId: this.modelId,
+            });
+
+            // Tool-call markup can only be told apart from text once it is complete,
+            // so with tools the output is buffered and parsed when generation ends
+            let bufferedText = '';
+            const objectTool = objectGeneration?.tool;
+            const objectToolCall = objectTool != null ? createObjectToolCall(objectTool, '') : undefined;
+
+            // Create a callback function that writes to the stream
+            const textCallback = (token: string) => {
+              if (token) {
+                if (objectToolCall != null) {
+                  bufferedText += token;
+                  controller.enqueue({
+                    type: 'tool-call-delta',
+                    toolCallType: 'function',
+                    toolCallId: objectToolCall.toolCallId,
+                    toolName: objectToolCall.toolName,
+                    argsTextDelta: token,
+                  });
+                } else if (tools != null) {
+                  bufferedText += token;
+                } else {
+                  controller.enqueue({ type: 'text-delta', textDelta: token });
+                }
+              }
+            };
+
+            // Hold back text that may turn out to be the start of a stop sequence
+            let generatedText = '';
+            const stopSequencesFilter = createStopSequencesFilter(options.stopSequences, text => {
+              generatedText += text;
+              textCallback(text);
+            });
+            const tokenCallback = (token: string) => stopSequencesFilter.push(token);
+
+            // Create a TextStreamer with our callback
+            const streamer = new TextStreamer(pn.tokenizer, {
+              skip_prompt: true,
+              callback_function: tokenCallback,
+            });
+
+            // Add streamer to generation options
+            const streamerOptions = {
+              ...generationOptions,
+              return_full_text: false,
+              streamer,
+              logits_processor: [
+                ...getObjectGenerationLogitsProcessors(pn, objectGeneration),
+                ...logitsProcessors,
+              ],
+              stopping_criteria: [
+                ...getStopSequencesStoppingCriteria(pn.tokenizer, options.stopSequences),
+                ...getAbortStoppingCriteria(options.abortSignal),
+                generationTracker.stoppingCriterion,
+              ],
+            };
+
+            // Run the generation with streaming
+            const result = await pn(promptText, streamerOptions);
+            throwIfAborted(options.abortSignal);
+            stopSequencesFilter.flush();
+            this.logger.debug('Streaming completed', { text: this.logger.content(generatedText) });
+
+            let hasToolCalls = false;
+            if (objectToolCall != null) {
+              controller.enqueue({ type: 'tool-call', ...objectToolCall, args: bufferedText });
+              hasToolCalls = true;
+            } else if (tools != null) {
+              const { text, toolCalls } = this.extractToolCalls(bufferedText, tools);
+              if (text) {
+                controller.enqueue({ type: 'text-delta', textDelta: text });
+              }
+              for (const toolCall of toolCalls) {
+                controller.enqueue({ type: 'tool-call', ...toolCall });
+              }
+              hasToolCalls = toolCalls.length > 0;
             }
-          };
-
-          // Create a TextStreamer with our callback
-          console.log('[DEBUG] Creating TextStreamer');
-          const streamer = new TextStreamer(pn.tokenizer, {
-            skip_prompt: true,
-            callback_function: tokenCallback,
-          });
-          console.log('[DEBUG] TextStreamer created');
-
-          // Add streamer to generation options
-          const streamerOptions = {
-            ...generationOptions,
-            streamer,
-          };
-
-          // Run the generation with streaming
-          console.log('[DEBUG] Starting streaming generation');
-          const result = await pn(promptText, streamerOptions);
-          console.log('[DEBUG] Streaming generation completed');
-
-          // Signal completion
-          console.log('[DEBUG] Closing stream controller');
-          controller.close();
-
-          // Store the result for returning later
-          return result;
-        } catch (error) {
-          console.error('[ERROR] Error in stream processing:', error);
-          controller.error(error);
+
+            controller.enqueue({
+              type: 'finish',
+              finishReason: generationTracker.getFinishReason({
+                hasToolCalls,
+                stopSequenceFound: stopSequencesFilter.isStopped(),
+                output: result,
+              }),
+              usage: generationTracker.getUsage({ promptText, generatedText }),
+            });
+
+            // Signal completion
+            controller.close();
+
+            // Store the result for returning later
+            return result;
+          } catch (error) {
+            this.logger.error('Streaming failed', { modelId: this.modelId, error });
+            controller.enqueue({ type: 'error', error });
+            controller.close();
+          } finally {
+            release();
+          }
         }
-      }
-    });
+      });
 
-    return {
-      stream,
-      rawCall: {
-        rawPrompt: promptText,
-        rawSettings: generationOptions
-      },
-      rawResponse: {
-        headers: {}
-      },
-      request: { body: JSON.stringify({ prompt: promptText, ...generationOptions }) }
-    };
+      return {
+        stream,
+        rawCall: {
+          rawPrompt: promptText,
+          rawSettings: generationOptions
+        },
+        rawResponse: {
+          headers: {}
+        },
+        request: { body: JSON.stringify({ prompt: promptText, ...generationOptions }) },
+        warnings
+      };
+    } catch (error) {
+      release();
+      throw error;
+    }
   }
 }
\ No newline at end of file
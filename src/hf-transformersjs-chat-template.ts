@@ -0,0 +1,77 @@
+import { PreTrainedTokenizer } from "@huggingface/transformers";
+import { LanguageModelV1CallWarning } from '@ai-sdk/provider';
+import { HFTransformersjsChatPrompt } from './convert-to-hf-transformersjs-chat-messages';
+import { HFTransformersjsChatTool } from './hf-transformersjs-prepare-tools';
+
+/**
+ * ChatML template used when the model's tokenizer ships without a chat template
+ * and no other fallback was configured.
+ */
+export const DEFAULT_FALLBACK_CHAT_TEMPLATE =
+  "{% for message in messages %}" +
+  "{{ '<|im_start|>' + message['role'] + '\\n' + message['content'] + '<|im_end|>' + '\\n' }}" +
+  "{% endfor %}" +
+  "{% if add_generation_prompt %}{{ '<|im_start|>assistant\\n' }}{% endif %}";
+
+export interface ChatTemplateOptions {
+  /**
+   * Template that always replaces the tokenizer's own chat template.
+   */
+  chatTemplate?: string;
+
+  /**
+   * Template used only when the tokenizer has no chat template.
+   */
+  fallbackChatTemplate?: string;
+
+  /**
+   * Tool definitions that the template should expose to the model.
+   */
+  tools?: HFTransformersjsChatTool[];
+}
+
+/**
+ * Renders chat messages into a prompt string using the tokenizer's chat template,
+ * ending with the generation prompt for the assistant turn.
+ */
+export function applyChatTemplate(
+  tokenizer: PreTrainedTokenizer,
+  messages: HFTransformersjsChatPrompt,
+  { chatTemplate, fallbackChatTemplate, tools }: ChatTemplateOptions = {},
+): { prompt: string; warnings: LanguageModelV1CallWarning[] } {
+  const warnings: LanguageModelV1CallWarning[] = [];
+
+  let template = chatTemplate;
+  if (template == null && !tokenizer.chat_template) {
+    template = fallbackChatTemplate ?? DEFAULT_FALLBACK_CHAT_TEMPLATE;
+    warnings.push({
+      type: 'other',
+      message: 'The model tokenizer has no chat template. Falling back to '
+        + (fallbackChatTemplate != null ? 'the configured fallback chat template.' : 'the default ChatML template.'),
+    });
+  }
+
+  if (tools != null && template == null && !getTemplateSource(tokenizer).includes('tools')) {
+    warnings.push({
+      type: 'other',
+      message: 'The model chat template does not reference tools. Tool definitions may be ignored by the model.',
+    });
+  }
+
+  const prompt = tokenizer.apply_chat_template(messages, {
+    tokenize: false,
+    add_generation_prompt: true,
+    ...(tools != null ? { tools } : {}),
+    ...(template != null ? { chat_template: template } : {}),
+  }) as string;
+
+  return { prompt, warnings };
+}
+
+function getTemplateSource(tokenizer: PreTrainedTokenizer): string {
+  const template: unknown = tokenizer.chat_template;
+  if (template != null && typeof template === 'object') {
+    return Object.values(template).join('\n');
+  }
+  return String(template ?? '');
+}
@@ -1,275 +1,117 @@
-import {pipeline, TextStreamer, TextGenerationPipeline, TextGenerationOutput} from "@huggingface/transformers";
+import { LanguageModelV1, LanguageModelV1CallOptions } from '@ai-sdk/provider';
+import { generateId } from '@ai-sdk/provider-utils';
+import { HFTransformersjsGenerationOptions } from './hf-transformersjs-generation-options';
+import { applyGenerationSettings, HFTransformersjsCompletionSettings } from './hf-transformersjs-settings';
+import { HFTransformersjsModelConfig, HFTransformersjsWarmupOptions } from './hf-transformersjs-model-config';
+import { HFTransformersjsCompletionLanguageModel } from './hf-transformersjs-completion-language-model';
 import {
-  LanguageModelV1,
-  LanguageModelV1StreamPart,
-  LanguageModelV1CallOptions,
-  LanguageModelV1Prompt,
-  LanguageModelV1CallWarning,
-  LanguageModelV1FunctionToolCall,
-  LanguageModelV1FinishReason,
-  LanguageModelV1ProviderMetadata,
-  LanguageModelV1Source,
-  LanguageModelV1LogProbs
-} from '@ai-sdk/provider';
-
+  applyOpenAICompatibleParameters,
+  createOpenAICompatibleTextCompletion,
+  getOpenAICompatibleParameters,
+  mapToOpenAICompatibleFinishReason,
+  withOpenAICompatibleResponseId,
+} from './hf-transformersjs-openai-compatible';
+
+/**
+ * Completion model that takes OpenAI completion parameters through `providerMetadata.openaiCompatible`
+ * and reports OpenAI-shaped requests and responses. Generation is done by
+ * `HFTransformersjsCompletionLanguageModel`.
+ */
 export class HFTransformersjsCompletionLanguageModelOpenAICompatible implements LanguageModelV1 {
   readonly specificationVersion = 'v1';
   readonly modelId: string;
-  readonly settings: Record<string, unknown>;
+  readonly settings: HFTransformersjsCompletionSettings;
   readonly provider: string;
   readonly defaultObjectGenerationMode = 'json';
 
-  // @ts-ignore
-  private config: { provider: string; apiKey?: string };
-  private pipelineInstance?: TextGenerationPipeline;
+  private readonly model: HFTransformersjsCompletionLanguageModel;
+  private readonly isRemote: boolean;
 
-  constructor(modelId: string, settings: Record<string, unknown>, config: { provider: string; apiKey?: string }) {
+  constructor(modelId: string, settings: HFTransformersjsCompletionSettings, config: HFTransformersjsModelConfig) {
+    this.model = new HFTransformersjsCompletionLanguageModel(modelId, settings, config);
     this.modelId = modelId;
-    this.settings = settings;
-    this.config = config;
+    this.settings = this.model.settings;
     this.provider = config.provider;
+    this.isRemote = config.remote != null;
   }
 
-  private async ensurePipeline(): Promise<TextGenerationPipeline> {
-    if (!this.pipelineInstance) {
-      // @ts-ignore
-      this.pipelineInstance = await pipeline("text-generation", this.modelId, {}) as TextGenerationPipeline;
-    }
-    return this.pipelineInstance;
-  }
-
-  doGenerate(options: LanguageModelV1CallOptions): PromiseLike<{
-    text?: string;
-    reasoning?: string | Array<{
-      type: 'text';
-      text: string;
-      signature?: string;
-    } | {
-      type: 'redacted';
-      data: string;
-    }>;
-    toolCalls?: Array<LanguageModelV1FunctionToolCall>;
-    finishReason: LanguageModelV1FinishReason;
-    usage: {
-      promptTokens: number;
-      completionTokens: number;
-    };
-    rawCall: {
-      rawPrompt: unknown;
-      rawSettings: Record<string, unknown>;
-    };
-    rawResponse?: {
-      headers?: Record<string, string>;
-      body?: unknown;
-    };
-    request?: {
-      body?: string;
-    };
-    response?: {
-      id?: string;
-      timestamp?: Date;
-      modelId?: string;
-    };
-    warnings?: LanguageModelV1CallWarning[];
-    providerMetadata?: LanguageModelV1ProviderMetadata;
-    sources?: LanguageModelV1Source[];
-    logprobs?: LanguageModelV1LogProbs;
-  }> {
-    return this.doGenerateImpl(options);
+  /**
+   * Loads the model ahead of the first call, so that calls do not wait for the download.
+   */
+  warmup(options?: HFTransformersjsWarmupOptions): Promise<void> {
+    return this.model.warmup(options);
   }
 
-  private async doGenerateImpl(options: LanguageModelV1CallOptions): Promise<{
-    text?: string;
-    reasoning?: string | Array<{
-      type: 'text';
-      text: string;
-      signature?: string;
-    } | {
-      type: 'redacted';
-      data: string;
-    }>;
-    toolCalls?: Array<LanguageModelV1FunctionToolCall>;
-    finishReason: LanguageModelV1FinishReason;
-    usage: {
-      promptTokens: number;
-      completionTokens: number;
-    };
-    rawCall: {
-      rawPrompt: unknown;
-      rawSettings: Record<string, unknown>;
-    };
-    rawResponse?: {
-      headers?: Record<string, string>;
-      body?: unknown;
-    };
-    request?: {
-      body?: string;
-    };
-    response?: {
-      id?: string;
-      timestamp?: Date;
-      modelId?: string;
-    };
-    warnings?: LanguageModelV1CallWarning[];
-    providerMetadata?: LanguageModelV1ProviderMetadata;
-    sources?: LanguageModelV1Source[];
-    logprobs?: LanguageModelV1LogProbs;
-  }> {
-    const pn = await this.ensurePipeline();
-
-    // Get the prompt text from options
-    const promptText = this.getPromptText(options.prompt);
-
-    const generationOptions = {
-      max_new_tokens: options.maxTokens ?? 512,
-      do_sample: (options.temperature ?? 0) > 0,
-      temperature: options.temperature ?? 0,
-    };
-
-    const res = await pn(promptText, generationOptions);
-    const result: TextGenerationOutput[] = Array.isArray(res) ? res as TextGenerationOutput[] : [res];
-
-    // Estimate token counts (basic approximation)
-    const promptTokens = Math.ceil(promptText.length / 4); // Very rough estimate
-    const generatedText = result[0][-1].generated_text.toString() ?? "";
-    const completionTokens = Math.ceil(generatedText.length / 4); // Very rough estimate
+  async doGenerate(options: LanguageModelV1CallOptions): Promise<Awaited<ReturnType<LanguageModelV1['doGenerate']>>> {
+    const callOptions = this.getCallOptions(options);
+    const result = await this.model.doGenerate(callOptions);
+    // Remote servers answer in the OpenAI format already
+    if (this.isRemote) {
+      return result;
+    }
 
+    const prompt = result.rawCall.rawPrompt;
+    const parameters = getOpenAICompatibleParameters(
+      callOptions,
+      result.rawCall.rawSettings as HFTransformersjsGenerationOptions,
+    );
+    const id = `cmpl-${generateId()}`;
+    const timestamp = new Date();
     return {
-      text: generatedText,
-      finishReason: "stop" as LanguageModelV1FinishReason,
-      usage: {
-        promptTokens,
-        completionTokens
-      },
+      ...result,
       rawCall: {
-        rawPrompt: promptText,
-        rawSettings: generationOptions
+        rawPrompt: prompt,
+        rawSettings: parameters,
       },
       rawResponse: {
-        body: result
+        body: createOpenAICompatibleTextCompletion({
+          id,
+          created: timestamp,
+          modelId: this.modelId,
+          // in object-tool mode the generated JSON is the arguments of the tool call
+          text: result.text ?? result.toolCalls?.[0]?.args ?? '',
+          finishReason: mapToOpenAICompatibleFinishReason(result.finishReason),
+          usage: result.usage,
+        }),
       },
       request: {
-        body: JSON.stringify({ prompt: promptText, ...generationOptions })
-      }
-    };
-  }
-
-  doStream(options: LanguageModelV1CallOptions): PromiseLike<{
-    stream: ReadableStream<LanguageModelV1StreamPart>;
-    rawCall: {
-      rawPrompt: unknown;
-      rawSettings: Record<string, unknown>;
-    };
-    rawResponse?: {
-      headers?: Record<string, string>;
+        body: JSON.stringify({ model: this.modelId, prompt, ...parameters }),
+      },
+      response: {
+        id,
+        timestamp,
+        modelId: this.modelId,
+      },
     };
-    request?: { body?: string };
-    warnings?: LanguageModelV1CallWarning[];
-  }> {
-    return this.doStreamImpl(options);
   }
 
-  private async doStreamImpl(options: LanguageModelV1CallOptions): Promise<{
-    stream: ReadableStream<LanguageModelV1StreamPart>;
-    rawCall: {
-      rawPrompt: unknown;
-      rawSettings: Record<string, unknown>;
-    };
-    rawResponse?: {
-      headers?: Record<string, string>;
-    };
-    request?: { body?: string };
-    warnings?: LanguageModelV1CallWarning[];
-  }> {
-    const pn = await this.ensurePipeline();
-    const promptText = this.getPromptText(options.prompt);
-
-    const generationOptions = {
-      max_new_tokens: options.maxTokens ?? 512,
-      do_sample: (options.temperature ?? 0) > 0,
-      temperature: options.temperature ?? 0,
-    };
-
-    // Create a ReadableStream to return tokens
-    const stream = new ReadableStream<LanguageModelV1StreamPart>({
-      start: async (controller) => {
-        try {
-          // Create a callback function that writes to the stream
-          const tokenCallback = (token: string) => {
-            if (token) {
-              controller.enqueue({
-                type: "text-delta",
-                textDelta: token
-              } as LanguageModelV1StreamPart);
-            }
-          };
-
-          // Create a TextStreamer with our callback
-          const streamer = new TextStreamer(pn.tokenizer, {
-            skip_prompt: true,
-            callback_function: tokenCallback,
-          });
-
-          // Add streamer to generation options
-          const streamerOptions = {
-            ...generationOptions,
-            streamer,
-          };
-
-          // Run the generation with streaming
-          const result = await pn(promptText, streamerOptions);
-
-          // Signal completion
-          controller.enqueue({
-            type: "finish",
-            finishReason: "stop"
-          } as LanguageModelV1StreamPart);
-
-          controller.close();
-
-          return result;
-        } catch (error) {
-          controller.error(error);
-        }
-      }
-    });
+  async doStream(options: LanguageModelV1CallOptions): Promise<Awaited<ReturnType<LanguageModelV1['doStream']>>> {
+    const callOptions = this.getCallOptions(options);
+    const result = await this.model.doStream(callOptions);
+    if (this.isRemote) {
+      return result;
+    }
 
+    const prompt = result.rawCall.rawPrompt;
+    const parameters = getOpenAICompatibleParameters(
+      callOptions,
+      result.rawCall.rawSettings as HFTransformersjsGenerationOptions,
+    );
     return {
-      stream,
+      ...result,
+      stream: withOpenAICompatibleResponseId(result.stream, 'cmpl'),
       rawCall: {
-        rawPrompt: promptText,
-        rawSettings: generationOptions
-      },
-      rawResponse: {
-        headers: {}
+        rawPrompt: prompt,
+        rawSettings: parameters,
       },
       request: {
-        body: JSON.stringify({ prompt: promptText, ...generationOptions })
-      }
+        body: JSON.stringify({ model: this.modelId, prompt, ...parameters, stream: true }),
+      },
     };
   }
 
-  // Helper method to extract prompt text from LanguageModelV1Prompt
-  private getPromptText(prompt: LanguageModelV1Prompt): string {
-    if (typeof prompt === 'string') {
-      return prompt;
-    }
-
-    // For completion model, we just concatenate all message content
-    if (Array.isArray(prompt)) {
-      return prompt.map(message => {
-        if (Array.isArray(message.content)) {
-          return message.content
-              .filter(part => 'text' in part)
-              .map(part => ('text' in part) ? part.text : '')
-              .join(' ');
-        } else if (typeof message.content === 'string') {
-          return message.content;
-        }
-        return '';
-      }).join('\n');
-    }
-
-    return '';
+  // The model settings are applied here as well, so that the reported parameters include them
+  private getCallOptions(options: LanguageModelV1CallOptions): LanguageModelV1CallOptions {
+    return applyGenerationSettings(applyOpenAICompatibleParameters(options), this.settings);
   }
-}
\ No newline at end of file
+}
@@ -42,6 +42,13 @@ describe("HFTransformersjsCompletionLanguageModelOpenAICompatible", () => {
     return [{ generated_text: "This is completed.", finish_reason: "length" }];
   };
 
+  // Counts one token per word
+  const fakeTokenizer = {
+    encode: (text: string) => text.split(/\s+/).filter(Boolean).map((_, index) => index),
+  };
+  fakePipelineCompletion.tokenizer = fakeTokenizer;
+  fakePipelineStreaming.tokenizer = fakeTokenizer;
+
   beforeEach(() => {
     (pipeline as any).mockReset();
     (mapOpenAICompatibleFinishReason as any).mockReset();
@@ -54,7 +61,7 @@ describe("HFTransformersjsCompletionLanguageModelOpenAICompatible", () => {
     const model = new HFTransformersjsCompletionLanguageModelOpenAICompatible(
         "completion-model",
         {},
-        { provider: "hf-test", apiKey: "dummy" }
+        { provider: "hf-test" }
     );
     const result = await model.doGenerate({
       prompt: "Test prompt",
@@ -66,16 +73,21 @@ describe("HFTransformersjsCompletionLanguageModelOpenAICompatible", () => {
     expect(mapOpenAICompatibleFinishReason).toHaveBeenCalledWith("length");
 
     const expectedPayload = {
+      model: "completion-model",
       prompt: "Test prompt",
-      max_new_tokens: 150,
-      do_sample: true, // temperature (0.3) > 0 so true
+      max_tokens: 150,
       temperature: 0.3,
     };
     expect(result.request.body).toBe(JSON.stringify(expectedPayload));
+    expect(result.rawResponse.body).toMatchObject({
+      object: "text_completion",
+      model: "completion-model",
+      choices: [{ index: 0, text: "Test prompt (completed)", finish_reason: "length" }],
+      usage: { prompt_tokens: 2, completion_tokens: 3, total_tokens: 5 },
+    });
 
-    // Check that token counts are estimated
-    expect(result.usage.promptTokens).toBeGreaterThan(0);
-    expect(result.usage.completionTokens).toBeGreaterThan(0);
+    // Check that tokens are counted with the tokenizer
+    expect(result.usage).toEqual({ promptTokens: 2, completionTokens: 3 });
   });
 
   it("should stream tokens with doStream", async () => {
@@ -84,7 +96,7 @@ describe("HFTransformersjsCompletionLanguageModelOpenAICompatible", () => {
     const model = new HFTransformersjsCompletionLanguageModelOpenAICompatible(
         "completion-model",
         {},
-        { provider: "hf-test", apiKey: "dummy" }
+        { provider: "hf-test" }
     );
 
     const chunks: any[] = [];
@@ -117,6 +129,12 @@ describe("HFTransformersjsCompletionLanguageModelOpenAICompatible", () => {
         .map(chunk => chunk.textDelta);
 
     expect(textChunks).toEqual(["This ", "is ", "completed."]);
+    expect(chunks[0]).toEqual(expect.objectContaining({ type: 'response-metadata', modelId: 'completion-model' }));
+    expect(chunks.at(-1)).toEqual({
+      type: 'finish',
+      finishReason: 'length',
+      usage: { promptTokens: 2, completionTokens: 3 }
+    });
   });
 
   it("should handle message-based prompts", async () => {
@@ -125,7 +143,7 @@ describe("HFTransformersjsCompletionLanguageModelOpenAICompatible", () => {
     const model = new HFTransformersjsCompletionLanguageModelOpenAICompatible(
         "completion-model",
         {},
-        { provider: "hf-test", apiKey: "dummy" }
+        { provider: "hf-test" }
     );
 
     const result = await model.doGenerate({
@@ -148,7 +166,7 @@ describe("HFTransformersjsCompletionLanguageModelOpenAICompatible", () => {
     const model = new HFTransformersjsCompletionLanguageModelOpenAICompatible(
         "completion-model",
         {},
-        { provider: "hf-test", apiKey: "dummy" }
+        { provider: "hf-test" }
     );
 
     const result = await model.doGenerate({
@@ -175,7 +193,7 @@ describe("HFTransformersjsCompletionLanguageModelOpenAICompatible", () => {
     const model = new HFTransformersjsCompletionLanguageModelOpenAICompatible(
         "completion-model",
         {},
-        { provider: "hf-test", apiKey: "dummy" }
+        { provider: "hf-test" }
     );
 
     const result = await model.doGenerate({
@@ -1,4 +1,4 @@
-import {pipeline, TextStreamer, TextGenerationPipeline, TextGenerationOutput} from "@huggingface/transformers";
+import {TextStreamer, TextGenerationPipeline, TextGenerationOutput} from "@huggingface/transformers";
 import {
   LanguageModelV1,
   LanguageModelV1StreamPart,
@@ -11,30 +11,85 @@ import {
   LanguageModelV1Source,
   LanguageModelV1LogProbs
 } from '@ai-sdk/provider';
+import { generateId } from '@ai-sdk/provider-utils';
+import { createObjectToolCall, prepareObjectGeneration } from './hf-transformersjs-object-generation';
+import { getEosTokenIds, getObjectGenerationLogitsProcessors } from './hf-transformersjs-logits-processors';
+import { prepareGenerationOptions } from './hf-transformersjs-generation-options';
+import {
+  createStopSequencesFilter,
+  getStopSequencesStoppingCriteria,
+  trimAtStopSequence
+} from './hf-transformersjs-stop-sequences';
+import { createGenerationTracker } from './hf-transformersjs-generation-tracker';
+import { getAbortStoppingCriteria, throwIfAborted } from './hf-transformersjs-abort';
+import {
+  applyGenerationSettings,
+  getPipelineOptions,
+  HFTransformersjsCompletionSettings,
+  parseCompletionSettings,
+} from './hf-transformersjs-settings';
+import { HFTransformersjsModelConfig, HFTransformersjsWarmupOptions } from './hf-transformersjs-model-config';
+import { HFTransformersjsRemoteCompletionLanguageModel } from './hf-transformersjs-remote-completion-language-model';
+import { createPipelineRegistry, HFTransformersjsPipelineRegistry } from './hf-transformersjs-pipeline-registry';
+import { createProgressListener } from './hf-transformersjs-progress';
 
 export class HFTransformersjsCompletionLanguageModel implements LanguageModelV1 {
   readonly specificationVersion = 'v1';
   readonly modelId: string;
-  readonly settings: Record<string, unknown>;
+  readonly settings: HFTransformersjsCompletionSettings;
   readonly provider: string;
   readonly defaultObjectGenerationMode = 'json';
 
-  // @ts-ignore
-  private config: { provider: string; apiKey?: string };
-  private pipelineInstance?: TextGenerationPipeline;
+  private config: HFTransformersjsModelConfig;
+  private readonly remoteModel?: HFTransformersjsRemoteCompletionLanguageModel;
+  private readonly pipelineRegistry: HFTransformersjsPipelineRegistry;
 
-  constructor(modelId: string, settings: Record<string, unknown>, config: { provider: string; apiKey?: string }) {
+  constructor(modelId: string, settings: HFTransformersjsCompletionSettings, config: HFTransformersjsModelConfig) {
     this.modelId = modelId;
-    this.settings = settings;
+    this.settings = parseCompletionSettings(settings);
     this.config = config;
+    this.pipelineRegistry = config.pipelineRegistry ?? createPipelineRegistry();
     this.provider = config.provider;
+    this.remoteModel = config.remote != null
+      ? new HFTransformersjsRemoteCompletionLanguageModel(modelId, this.settings, config.remote)
+      : undefined;
+  }
+
+  // Pipelines are shared through the registry and have to be released once the call is done
+  private acquirePipeline(
+      abortSignal?: AbortSignal,
+      onProgress?: HFTransformersjsWarmupOptions['onProgress'],
+  ) {
+    return this.pipelineRegistry.acquire<TextGenerationPipeline>({
+      task: 'text-generation',
+      modelId: this.modelId,
+      options: getPipelineOptions(this.settings),
+      abortSignal,
+      onProgress: createProgressListener(this.modelId, [
+        this.config.onProgress,
+        this.settings.onProgress,
+        onProgress,
+      ]),
+    });
   }
 
-  private async ensurePipeline(): Promise<TextGenerationPipeline> {
-    if (!this.pipelineInstance) {
-      this.pipelineInstance = await pipeline("text-generation", this.modelId, {}) as TextGenerationPipeline;
+  /**
+   * Loads the model ahead of the first call, so that calls do not wait for the download.
+   */
+  async warmup({ runInference = false, onProgress, abortSignal }: HFTransformersjsWarmupOptions = {}): Promise<void> {
+    // Remote models have nothing to load
+    if (this.remoteModel != null) {
+      return;
+    }
+
+    const { pipeline: pn, release } = await this.acquirePipeline(abortSignal, onProgress);
+    try {
+      if (runInference) {
+        await pn('Hello', { max_new_tokens: 1 });
+      }
+    } finally {
+      release();
     }
-    return this.pipelineInstance;
   }
 
   doGenerate(options: LanguageModelV1CallOptions): PromiseLike<{
@@ -74,7 +129,10 @@ export class HFTransformersjsCompletionLanguageModel implements LanguageModelV1
     sources?: LanguageModelV1Source[];
     logprobs?: LanguageModelV1LogProbs;
   }> {
-    return this.doGenerateImpl(options);
+    if (this.remoteModel != null) {
+      return this.remoteModel.doGenerate(options);
+    }
+    return this.doGenerateImpl(applyGenerationSettings(options, this.settings));
   }
 
   private async doGenerateImpl(options: LanguageModelV1CallOptions): Promise<{
@@ -114,42 +172,73 @@ export class HFTransformersjsCompletionLanguageModel implements LanguageModelV1
     sources?: LanguageModelV1Source[];
     logprobs?: LanguageModelV1LogProbs;
   }> {
-    const pn = await this.ensurePipeline();
-
-    // Get the prompt text from options
-    const promptText = this.getPromptText(options.prompt);
+    const { pipeline: pn, release } = await this.acquirePipeline(options.abortSignal);
+    try {
+      const objectGeneration = prepareObjectGeneration(options);
+      const promptText = this.getPromptText(options.prompt, objectGeneration?.instruction);
 
-    const generationOptions = {
-      max_new_tokens: options.maxTokens ?? 512,
-      do_sample: (options.temperature ?? 0) > 0,
-      temperature: options.temperature ?? 0,
-    };
+      const { generationOptions, logitsProcessors, warnings } = prepareGenerationOptions(options);
+      const generationTracker = createGenerationTracker({
+        tokenizer: pn.tokenizer,
+        eosTokenIds: getEosTokenIds(pn),
+        maxNewTokens: generationOptions.max_new_tokens,
+      });
 
-    const res = await pn(promptText, generationOptions);
-    const result: TextGenerationOutput[] = Array.isArray(res) ? res as TextGenerationOutput[] : [res];
+      const pipelineOptions = {
+        ...generationOptions,
+        return_full_text: false,
+        logits_processor: [
+          ...getObjectGenerationLogitsProcessors(pn, objectGeneration),
+          ...logitsProcessors,
+        ],
+        stopping_criteria: [
+          ...getStopSequencesStoppingCriteria(pn.tokenizer, options.stopSequences),
+          ...getAbortStoppingCriteria(options.abortSignal),
+          generationTracker.stoppingCriterion,
+        ],
+      };
+      const res = await pn(promptText, pipelineOptions);
+      throwIfAborted(options.abortSignal);
+      // A single text prompt gives the outputs of a single sequence
+      const result = res as TextGenerationOutput;
+      const rawText = result[0]?.generated_text;
+      if (typeof rawText !== 'string') {
+        throw new Error('Unexpected pipeline output format');
+      }
+      const generatedText = trimAtStopSequence(rawText, options.stopSequences);
+      const { promptTokens, completionTokens } = generationTracker.getUsage({ promptText, generatedText });
 
-    // Estimate token counts (basic approximation)
-    const promptTokens = Math.ceil(promptText.length / 4); // Very rough estimate
-    const completionTokens = Math.ceil(result[0][-1].generated_text.length / 4); // Very rough estimate
+      const toolCalls = objectGeneration?.tool != null
+        ? [createObjectToolCall(objectGeneration.tool, generatedText)]
+        : undefined;
 
-    return {
-      text: result[0][-1].generated_text.toString(),
-      finishReason: "stop" as LanguageModelV1FinishReason, // Assuming normal completion
-      usage: {
-        promptTokens,
-        completionTokens
-      },
-      rawCall: {
-        rawPrompt: promptText,
-        rawSettings: generationOptions
-      },
-      rawResponse: {
-        body: result
-      },
-      request: {
-        body: JSON.stringify({ prompt: promptText, ...generationOptions })
-      }
-    };
+      return {
+        text: toolCalls == null ? generatedText : undefined,
+        toolCalls,
+        finishReason: generationTracker.getFinishReason({
+          hasToolCalls: toolCalls != null,
+          stopSequenceFound: generatedText !== rawText,
+          output: result,
+        }), // Assuming normal completion
+        usage: {
+          promptTokens,
+          completionTokens
+        },
+        rawCall: {
+          rawPrompt: promptText,
+          rawSettings: generationOptions
+        },
+        rawResponse: {
+          body: result
+        },
+        request: {
+          body: JSON.stringify({ prompt: promptText, ...generationOptions })
+        },
+        warnings
+      };
+    } finally {
+      release();
+    }
   }
 
   doStream(options: LanguageModelV1CallOptions): PromiseLike<{
@@ -164,7 +253,10 @@ export class HFTransformersjsCompletionLanguageModel implements LanguageModelV1
     request?: { body?: string };
     warnings?: LanguageModelV1CallWarning[];
   }> {
-    return this.doStreamImpl(options);
+    if (this.remoteModel != null) {
+      return this.remoteModel.doStream(options);
+    }
+    return this.doStreamImpl(applyGenerationSettings(options, this.settings));
   }
 
   private async doStreamImpl(options: LanguageModelV1CallOptions): Promise<{
@@ -179,75 +271,140 @@ export class HFTransformersjsCompletionLanguageModel implements LanguageModelV1
     request?: { body?: string };
     warnings?: LanguageModelV1CallWarning[];
   }> {
-    const pn = await this.ensurePipeline();
-    const promptText = this.getPromptText(options.prompt);
+    const { pipeline: pn, release } = await this.acquirePipeline(options.abortSignal);
+    try {
+      const objectGeneration = prepareObjectGeneration(options);
+      const promptText = this.getPromptText(options.prompt, objectGeneration?.instruction);
 
-    const generationOptions = {
-      max_new_tokens: options.maxTokens ?? 512,
-      do_sample: (options.temperature ?? 0) > 0,
-      temperature: options.temperature ?? 0,
-    };
+      const { generationOptions, logitsProcessors, warnings } = prepareGenerationOptions(options);
+      const generationTracker = createGenerationTracker({
+        tokenizer: pn.tokenizer,
+        eosTokenIds: getEosTokenIds(pn),
+        maxNewTokens: generationOptions.max_new_tokens,
+      });
 
-    // Create a ReadableStream to return tokens
-    const stream = new ReadableStream<LanguageModelV1StreamPart>({
-      start: async (controller) => {
-        try {
-          // Create a callback function that writes to the stream
-          const tokenCallback = (token: string) => {
-            if (token) {
-              controller.enqueue({
-                type: "text-delta",
-                textDelta: token
-              } as LanguageModelV1StreamPart);
-            }
-          };
+      // Create a ReadableStream to return tokens
+      const stream = new ReadableStream<LanguageModelV1StreamPart>({
+        start: async (controller) => {
+          try {
+            controller.enqueue({
+              type: 'response-metadata',
+              id: generateId(),
+              timestamp: new Date(),
+              modelId: this.modelId,
+            });
+
+            // In object-tool mode the generated JSON is streamed as the arguments of the forced tool call
+            let bufferedText = '';
+            const objectTool = objectGeneration?.tool;
+            const objectToolCall = objectTool != null ? createObjectToolCall(objectTool, '') : undefined;
 
-          // Create a TextStreamer with our callback
-          const streamer = new TextStreamer(pn.tokenizer, {
-            skip_prompt: true,
-            callback_function: tokenCallback,
-          });
+            // Create a callback function that writes to the stream
+            const textCallback = (token: string) => {
+              if (token) {
+                if (objectToolCall != null) {
+                  bufferedText += token;
+                  controller.enqueue({
+                    type: 'tool-call-delta',
+                    toolCallType: 'function',
+                    toolCallId: objectToolCall.toolCallId,
+                    toolName: objectToolCall.toolName,
+                    argsTextDelta: token,
+                  });
+                } else {
+                  controller.enqueue({ type: 'text-delta', textDelta: token });
+                }
+              }
+            };
 
-          // Add streamer to generation options
-          const streamerOptions = {
-            ...generationOptions,
-            streamer,
-          };
+            // Hold back text that may turn out to be the start of a stop sequence
+            let generatedText = '';
+            const stopSequencesFilter = createStopSequencesFilter(options.stopSequences, text => {
+              generatedText += text;
+              textCallback(text);
+            });
+            const tokenCallback = (token: string) => stopSequencesFilter.push(token);
 
-          // Run the generation with streaming
-          const result = await pn(promptText, streamerOptions);
+            // Create a TextStreamer with our callback
+            const streamer = new TextStreamer(pn.tokenizer, {
+              skip_prompt: true,
+              callback_function: tokenCallback,
+            });
+
+            // Add streamer to generation options
+            const streamerOptions = {
+              ...generationOptions,
+              return_full_text: false,
+              streamer,
+              logits_processor: [
+                ...getObjectGenerationLogitsProcessors(pn, objectGeneration),
+                ...logitsProcessors,
+              ],
+              stopping_criteria: [
+                ...getStopSequencesStoppingCriteria(pn.tokenizer, options.stopSequences),
+                ...getAbortStoppingCriteria(options.abortSignal),
+                generationTracker.stoppingCriterion,
+              ],
+            };
+
+            // Run the generation with streaming
+            const result = await pn(promptText, streamerOptions);
+            throwIfAborted(options.abortSignal);
+            stopSequencesFilter.flush();
+
+            if (objectToolCall != null) {
+              controller.enqueue({ type: 'tool-call', ...objectToolCall, args: bufferedText });
+            }
 
-          // Signal completion
-          controller.enqueue({
-            type: "finish"
-          } as LanguageModelV1StreamPart);
+            // Signal completion
+            controller.enqueue({
+              type: 'finish',
+              finishReason: generationTracker.getFinishReason({
+                hasToolCalls: objectToolCall != null,
+                stopSequenceFound: stopSequencesFilter.isStopped(),
+                output: result,
+              }),
+              usage: generationTracker.getUsage({ promptText, generatedText }),
+            });
 
-          controller.close();
+            controller.close();
 
-          return result;
-        } catch (error) {
-          controller.error(error);
+            return result;
+          } catch (error) {
+            controller.enqueue({ type: 'error', error });
+            controller.close();
+          } finally {
+            release();
+          }
         }
-      }
-    });
+      });
 
-    return {
-      stream,
-      rawCall: {
-        rawPrompt: promptText,
-        rawSettings: generationOptions
-      },
-      rawResponse: {
-        headers: {}
-      },
-      request: {
-        body: JSON.stringify({ prompt: promptText, ...generationOptions })
-      }
-    };
+      return {
+        stream,
+        rawCall: {
+          rawPrompt: promptText,
+          rawSettings: generationOptions
+        },
+        rawResponse: {
+          headers: {}
+        },
+        request: {
+          body: JSON.stringify({ prompt: promptText, ...generationOptions })
+        },
+        warnings
+      };
+    } catch (error) {
+      release();
+      throw error;
+    }
   }
 
   // Helper method to extract prompt text from LanguageModelV1Prompt
-  private getPromptText(prompt: LanguageModelV1Prompt): string {
+  private getPromptText(prompt: LanguageModelV1Prompt, instruction?: string): string {
+    if (instruction != null) {
+      return `${instruction}\n\n${this.getPromptText(prompt)}`;
+    }
+
     if (typeof prompt === 'string') {
       return prompt;
     }
@@ -0,0 +1,43 @@
+import { AISDKError } from '@ai-sdk/provider';
+
+const name = 'AI_HFTransformersjsEmbeddingError';
+const marker = `vercel.ai.error.${name}`;
+const symbol = Symbol.for(marker);
+
+/**
+ * A value that could not be embedded: the pipeline failed on its batch, or its output was not an
+ * embedding of the expected size.
+ */
+export class HFTransformersjsEmbeddingError extends AISDKError {
+  protected readonly [symbol] = true; // used in isInstance
+
+  /**
+   * Index of the value in the `values` of the call.
+   */
+  readonly index: number;
+  readonly value: string;
+  readonly modelId: string;
+
+  constructor({
+    index,
+    value,
+    modelId,
+    message,
+    cause,
+  }: {
+    index: number;
+    value: string;
+    modelId: string;
+    message: string;
+    cause?: unknown;
+  }) {
+    super({ name, message: `Failed to embed value ${index} with model "${modelId}": ${message}`, cause });
+    this.index = index;
+    this.value = value;
+    this.modelId = modelId;
+  }
+
+  static isInstance(error: unknown): error is HFTransformersjsEmbeddingError {
+    return AISDKError.hasMarker(error, marker);
+  }
+}
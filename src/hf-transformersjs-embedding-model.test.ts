@@ -0,0 +1,325 @@
+// @ts-nocheck
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { HFTransformersjsEmbeddingModel } from "./hf-transformersjs-embedding-model";
+import { HFTransformersjsEmbeddingError } from "./hf-transformersjs-embedding-error";
+import { createLogger } from "./hf-transformersjs-logger";
+import { pipeline } from "@huggingface/transformers";
+
+// --- MOCK THE TRANSFORMERS API ---
+vi.mock("@huggingface/transformers", () => {
+  return {
+    pipeline: vi.fn(),
+  };
+});
+
+describe("HFTransformersjsEmbeddingModel", () => {
+  let mockFeatureExtractionPipeline;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    // Returns a batch of two token vectors for every input
+    mockFeatureExtractionPipeline = vi.fn().mockImplementation(async inputs => ({
+      tolist: () => inputs.map(() => [[1, 2], [3, 4]]),
+    }));
+    mockFeatureExtractionPipeline.tokenizer = {
+      // one token per word plus [CLS] and [SEP]; the words serve as their own token ids
+      encode: (text, { add_special_tokens = true } = {}) => {
+        const words = text.split(" ");
+        return add_special_tokens ? [101, ...words, 102] : words;
+      },
+      decode: (ids) => ids.join(" "),
+      model_max_length: 4,
+    };
+
+    (pipeline as any).mockResolvedValue(mockFeatureExtractionPipeline);
+  });
+
+  it("should embed every value and report the summed token counts", async () => {
+    const model = new HFTransformersjsEmbeddingModel(
+        "embedding-model",
+        {},
+        { provider: "hf-test" }
+    );
+
+    const result = await model.doEmbed({ values: ["hello world", "one two three four"] });
+
+    expect(result.embeddings).toEqual([[2, 3], [2, 3]]);
+    // the second value is truncated to the model's 4 tokens:
+    expect(result.usage).toEqual({ tokens: 8 });
+  });
+
+  it("should pass the pooling and normalization to the pipeline", async () => {
+    mockFeatureExtractionPipeline.mockResolvedValue({ data: [[0.6, 0.8]] });
+    const model = new HFTransformersjsEmbeddingModel(
+        "embedding-model",
+        { pooling: "cls", normalize: true },
+        { provider: "hf-test" }
+    );
+
+    const result = await model.doEmbed({ values: ["hello"] });
+
+    expect(mockFeatureExtractionPipeline).toHaveBeenCalledWith(["hello"], { pooling: "cls", normalize: true });
+    expect(result.embeddings).toEqual([[0.6, 0.8]]);
+  });
+
+  it("should pool the last token from the unpooled output", async () => {
+    const model = new HFTransformersjsEmbeddingModel("embedding-model", { pooling: "last" }, { provider: "hf-test" });
+
+    const result = await model.doEmbed({ values: ["hello"] });
+
+    expect(mockFeatureExtractionPipeline).toHaveBeenCalledWith(["hello"], { pooling: "none", normalize: false });
+    expect(result.embeddings).toEqual([[3, 4]]);
+  });
+
+  it("should take the vector of models that pool themselves and reject token vectors without pooling", async () => {
+    const model = new HFTransformersjsEmbeddingModel("embedding-model", { pooling: "none" }, { provider: "hf-test" });
+
+    await expect(model.doEmbed({ values: ["hello"] })).rejects.toThrow(/returned 2 token vectors/);
+
+    mockFeatureExtractionPipeline.mockResolvedValue({ data: [[0.6, 0.8]] });
+    expect((await model.doEmbed({ values: ["hello"] })).embeddings).toEqual([[0.6, 0.8]]);
+  });
+
+  it("should normalize embeddings after truncating them to the dimensions", async () => {
+    mockFeatureExtractionPipeline.mockResolvedValue({ data: [[3, 4, 12]] });
+    const model = new HFTransformersjsEmbeddingModel(
+        "embedding-model",
+        { normalize: true, dimensions: 2 },
+        { provider: "hf-test" }
+    );
+
+    const result = await model.doEmbed({ values: ["hello"] });
+
+    expect(mockFeatureExtractionPipeline).toHaveBeenCalledWith(["hello"], { pooling: "mean", normalize: false });
+    expect(result.embeddings).toEqual([[0.6, 0.8]]);
+  });
+
+  it("should embed batches of similar length and return the embeddings in the order of the values", async () => {
+    // Returns the word count of every input as its embedding
+    mockFeatureExtractionPipeline.mockImplementation(async inputs => ({
+      tolist: () => inputs.map(input => [input.split(" ").length, 1]),
+    }));
+    mockFeatureExtractionPipeline.tokenizer.model_max_length = 512;
+    const model = new HFTransformersjsEmbeddingModel("embedding-model", { batchSize: 2 }, { provider: "hf-test" });
+
+    const result = await model.doEmbed({ values: ["a b c", "a", "a b"] });
+
+    expect(mockFeatureExtractionPipeline.mock.calls.map(([inputs]) => inputs)).toEqual([["a", "a b"], ["a b c"]]);
+    expect(result.embeddings).toEqual([[3, 1], [1, 1], [2, 1]]);
+    expect(result.providerMetadata.hfTransformersjs).toMatchObject({
+      batchSize: 2,
+      batches: 2,
+      embeddingsPerSecond: expect.any(Number),
+      tokensPerSecond: expect.any(Number),
+    });
+  });
+
+  it("should pool the last token before the padding of a batch", async () => {
+    mockFeatureExtractionPipeline.mockImplementation(async inputs => ({
+      tolist: () => inputs.map(() => [[1, 1], [2, 2], [3, 3], [0, 0]]),
+    }));
+    const model = new HFTransformersjsEmbeddingModel("embedding-model", { pooling: "last" }, { provider: "hf-test" });
+
+    const result = await model.doEmbed({ values: ["hi", "hello world"] });
+
+    // "hi" has 3 tokens and "hello world" 4, the model's maximum
+    expect(result.embeddings).toEqual([[3, 3], [0, 0]]);
+  });
+
+  it("should reject with the index of the value when a batch fails", async () => {
+    mockFeatureExtractionPipeline.mockImplementationOnce(async () => {
+      throw new Error("out of memory");
+    });
+    const model = new HFTransformersjsEmbeddingModel("embedding-model", { batchSize: 1 }, { provider: "hf-test" });
+
+    const error = await model.doEmbed({ values: ["hello", "hello world"] }).catch(error => error);
+
+    expect(HFTransformersjsEmbeddingError.isInstance(error)).toBe(true);
+    expect(error).toMatchObject({ index: 0, value: "hello", modelId: "embedding-model" });
+    expect(error.message).toContain("out of memory");
+  });
+
+  it("should skip values that cannot be embedded and list their errors", async () => {
+    mockFeatureExtractionPipeline.mockImplementationOnce(async () => {
+      throw new Error("out of memory");
+    });
+    const model = new HFTransformersjsEmbeddingModel(
+        "embedding-model",
+        { batchSize: 1, onError: "skip" },
+        { provider: "hf-test" }
+    );
+
+    const result = await model.doEmbed({ values: ["hello", "hello world"] });
+
+    expect(result.embeddings).toEqual([[], [2, 3]]);
+    expect(result.providerMetadata.hfTransformersjs.errors).toEqual([
+      { index: 0, message: expect.stringContaining("out of memory") },
+    ]);
+  });
+
+  it("should retry a failed batch one value at a time to skip only the values that fail", async () => {
+    mockFeatureExtractionPipeline.mockImplementation(async inputs => {
+      if (inputs.includes("bad value")) {
+        throw new Error("out of memory");
+      }
+      return { tolist: () => inputs.map(() => [[1, 2], [3, 4]]) };
+    });
+    const model = new HFTransformersjsEmbeddingModel(
+        "embedding-model",
+        { onError: "skip" },
+        { provider: "hf-test" }
+    );
+
+    const result = await model.doEmbed({ values: ["hello", "bad value", "hello world"] });
+
+    expect(result.embeddings).toEqual([[2, 3], [], [2, 3]]);
+    expect(result.providerMetadata.hfTransformersjs.errors).toEqual([
+      { index: 1, message: expect.stringContaining("out of memory") },
+    ]);
+  });
+
+  it("should let callers leave out skipped values by the indices of their errors", async () => {
+    mockFeatureExtractionPipeline.mockImplementationOnce(async () => {
+      throw new Error("out of memory");
+    });
+    const destination = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const model = new HFTransformersjsEmbeddingModel(
+        "embedding-model",
+        { batchSize: 1, onError: "skip" },
+        { provider: "hf-test", logger: createLogger({ logger: destination, redact: true }) }
+    );
+    const values = ["secret text", "hello world"];
+
+    const { embeddings, providerMetadata } = await model.doEmbed({ values });
+    const skipped = new Set(providerMetadata.hfTransformersjs.errors.map(({ index }) => index));
+    const stored = values
+        .map((value, index) => ({ value, embedding: embeddings[index] }))
+        .filter((_, index) => !skipped.has(index));
+
+    expect(stored).toEqual([{ value: "hello world", embedding: [2, 3] }]);
+    expect(destination.warn).toHaveBeenCalledWith("Skipping value that could not be embedded", {
+      index: 0,
+      message: expect.stringContaining("out of memory"),
+      modelId: "embedding-model",
+    });
+    expect(JSON.stringify(destination.warn.mock.calls)).not.toContain("secret text");
+  });
+
+  it("should reject embeddings with a different number of dimensions", async () => {
+    mockFeatureExtractionPipeline.mockImplementation(async inputs => ({
+      tolist: () => inputs.map(input => (input === "hello" ? [1, 2] : [1, 2, 3])),
+    }));
+    const model = new HFTransformersjsEmbeddingModel("embedding-model", {}, { provider: "hf-test" });
+
+    await expect(model.doEmbed({ values: ["hello", "hello world"] }))
+        .rejects.toMatchObject({ index: 1, message: expect.stringContaining("Expected 2 dimensions, got 3") });
+  });
+
+  it("should reject outputs that hold no embedding", async () => {
+    mockFeatureExtractionPipeline.mockResolvedValue({ unknown: true });
+    const model = new HFTransformersjsEmbeddingModel("embedding-model", {}, { provider: "hf-test" });
+
+    await expect(model.doEmbed({ values: ["hello"] }))
+        .rejects.toMatchObject({ name: "AI_HFTransformersjsEmbeddingError", index: 0 });
+  });
+
+  it("should drop the start of values that are too long when truncating the start", async () => {
+    const model = new HFTransformersjsEmbeddingModel(
+        "embedding-model",
+        { truncation: "truncate-start" },
+        { provider: "hf-test" }
+    );
+
+    await model.doEmbed({ values: ["one two three four"] });
+
+    expect(mockFeatureExtractionPipeline).toHaveBeenCalledWith(["three four"], expect.anything());
+  });
+
+  it("should reject values that are too long when truncation is an error", async () => {
+    const model = new HFTransformersjsEmbeddingModel("embedding-model", { truncation: "error" }, { provider: "hf-test" });
+
+    await expect(model.doEmbed({ values: ["one two", "one two three"] }))
+        .rejects.toMatchObject({ index: 1, message: expect.stringContaining("has 3 tokens, the model accepts 2") });
+    expect(mockFeatureExtractionPipeline).not.toHaveBeenCalled();
+  });
+
+  it("should embed long values in overlapping chunks and pool the chunk embeddings", async () => {
+    // Returns the word count of every input as its embedding
+    mockFeatureExtractionPipeline.mockImplementation(async inputs => ({
+      tolist: () => inputs.map(input => [input.split(" ").length, input === "d e" ? 4 : 0]),
+    }));
+    const model = new HFTransformersjsEmbeddingModel(
+        "embedding-model",
+        { chunk: { size: 2, overlap: 1, pooling: "max" } },
+        { provider: "hf-test" }
+    );
+
+    const result = await model.doEmbed({ values: ["a b c d e", "f"] });
+
+    expect(mockFeatureExtractionPipeline.mock.calls[0][0]).toEqual(["f", "a b", "b c", "c d", "d e"]);
+    expect(result.embeddings).toEqual([[2, 4], [1, 0]]);
+    expect(result.usage).toEqual({ tokens: 19 });
+    expect(result.providerMetadata.hfTransformersjs.chunks).toEqual([4, 1]);
+  });
+
+  it("should add the prefix of the model family for the input type", async () => {
+    mockFeatureExtractionPipeline.tokenizer.model_max_length = 512;
+    const query = new HFTransformersjsEmbeddingModel("Xenova/e5-small-v2", { inputType: "query" }, { provider: "hf-test" });
+    const document = new HFTransformersjsEmbeddingModel(
+        "nomic-ai/nomic-embed-text-v1.5",
+        { inputType: "document" },
+        { provider: "hf-test" }
+    );
+    const unknown = new HFTransformersjsEmbeddingModel("Xenova/all-MiniLM-L6-v2", { inputType: "query" }, { provider: "hf-test" });
+
+    await query.doEmbed({ values: ["hello"] });
+    await document.doEmbed({ values: ["hello"] });
+    await unknown.doEmbed({ values: ["hello"] });
+
+    expect(mockFeatureExtractionPipeline.mock.calls.map(([inputs]) => inputs)).toEqual([
+      ["query: hello"],
+      ["search_document: hello"],
+      ["hello"],
+    ]);
+  });
+
+  it("should apply custom prefix templates and keep the prefix when truncating", async () => {
+    mockFeatureExtractionPipeline.tokenizer.model_max_length = 6;
+    const model = new HFTransformersjsEmbeddingModel(
+        "Xenova/e5-small-v2",
+        { inputType: "query", prefixes: { query: "Q {text} ?" }, truncation: "truncate-start" },
+        { provider: "hf-test" }
+    );
+
+    await model.doEmbed({ values: ["one two"] });
+
+    // the template takes three of the four tokens between [CLS] and [SEP], so only the last word fits
+    expect(mockFeatureExtractionPipeline).toHaveBeenCalledWith(["Q two ?"], expect.anything());
+  });
+
+  it("should reject invalid pooling settings", () => {
+    expect(() => new HFTransformersjsEmbeddingModel("embedding-model", { pooling: "max" }, { provider: "hf-test" }))
+        .toThrow(/Type validation failed/);
+  });
+
+  it("should stop embedding when the abort signal fires", async () => {
+    const controller = new AbortController();
+    mockFeatureExtractionPipeline.mockImplementation(async () => {
+      controller.abort();
+      return { data: [[1, 2], [3, 4]] };
+    });
+
+    const model = new HFTransformersjsEmbeddingModel(
+        "embedding-model",
+        { batchSize: 1 },
+        { provider: "hf-test" }
+    );
+
+    await expect(model.doEmbed({
+      values: ["hello", "world"],
+      abortSignal: controller.signal,
+    })).rejects.toMatchObject({ name: "AbortError" });
+    expect(mockFeatureExtractionPipeline).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,24 +1,62 @@
-import { pipeline } from "@huggingface/transformers";
-import { EmbeddingModelV1, TooManyEmbeddingValuesForCallError } from '@ai-sdk/provider';
+import { PreTrainedTokenizer } from "@huggingface/transformers";
+import {
+  EmbeddingModelV1,
+  getErrorMessage,
+  LanguageModelV1ProviderMetadata,
+  TooManyEmbeddingValuesForCallError,
+} from '@ai-sdk/provider';
+import { throwIfAborted } from './hf-transformersjs-abort';
+import { HFTransformersjsEmbeddingError } from './hf-transformersjs-embedding-error';
+import { applyEmbeddingTemplate, getEmbeddingTemplate } from './hf-transformersjs-embedding-prefixes';
+import {
+  getPipelineOptions,
+  HFTransformersjsEmbeddingSettings,
+  parseEmbeddingSettings,
+} from './hf-transformersjs-settings';
+import { HFTransformersjsModelConfig, HFTransformersjsWarmupOptions } from './hf-transformersjs-model-config';
+import { HFTransformersjsRemoteEmbeddingModel } from './hf-transformersjs-remote-embedding-model';
+import { createPipelineRegistry, HFTransformersjsPipelineRegistry } from './hf-transformersjs-pipeline-registry';
+import { createProgressListener } from './hf-transformersjs-progress';
+import { createLogger, HFTransformersjsModelLogger } from './hf-transformersjs-logger';
 
 // Define the embedding type expected by the interface
 type EmbeddingModelV1Embedding = number[];
 
+// The part of a transformers.js Tensor that converts it to nested arrays
+interface TensorLike {
+  tolist(): unknown[];
+}
+
+// Options of the feature-extraction pipeline that the model uses
+type ExtractorOptions = {
+  pooling: 'none' | 'mean' | 'cls';
+  normalize: boolean;
+};
+
 export class HFTransformersjsEmbeddingModel implements EmbeddingModelV1<string> {
   readonly specificationVersion = 'v1';
   readonly modelId: string;
-  readonly settings: Record<string, unknown>;
+  readonly settings: HFTransformersjsEmbeddingSettings;
   readonly provider: string;
   readonly supportsParallelCalls: boolean = true;
 
-  private config: { provider: string; apiKey?: string };
-  private pipelineInstance?: Awaited<ReturnType<typeof pipeline>>;
+  private config: HFTransformersjsModelConfig;
+  private readonly remoteModel?: HFTransformersjsRemoteEmbeddingModel;
+  private readonly pipelineRegistry: HFTransformersjsPipelineRegistry;
+  private readonly logger: HFTransformersjsModelLogger;
+  private readonly template?: string;
 
-  constructor(modelId: string, settings: Record<string, unknown>, config: { provider: string; apiKey?: string }) {
+  constructor(modelId: string, settings: HFTransformersjsEmbeddingSettings, config: HFTransformersjsModelConfig) {
     this.modelId = modelId;
-    this.settings = settings;
+    this.settings = parseEmbeddingSettings(settings);
     this.config = config;
+    this.pipelineRegistry = config.pipelineRegistry ?? createPipelineRegistry();
+    this.logger = config.logger ?? createLogger();
     this.provider = config.provider;
+    this.template = getEmbeddingTemplate(modelId, this.settings);
+    this.remoteModel = config.remote != null
+      ? new HFTransformersjsRemoteEmbeddingModel(modelId, this.settings, config.remote)
+      : undefined;
   }
 
   // Define maxEmbeddingsPerCall or use a default:
@@ -26,90 +64,253 @@ export class HFTransformersjsEmbeddingModel implements EmbeddingModelV1<string>
     return 2048;
   }
 
-  private async ensurePipeline() {
-    if (!this.pipelineInstance) {
-      // For feature-extraction pipeline, specify the proper config
-      this.pipelineInstance = await pipeline("feature-extraction", this.modelId, {
-        revision: "main",
-        // quantized: false
-      });
+  // Pipelines are shared through the registry and have to be released once the call is done
+  private acquirePipeline(
+      abortSignal?: AbortSignal,
+      onProgress?: HFTransformersjsWarmupOptions['onProgress'],
+  ) {
+    // Typed as the callable part of the feature-extraction pipeline
+    return this.pipelineRegistry.acquire<((inputs: string[], options: ExtractorOptions) => Promise<unknown>) & {
+      tokenizer: PreTrainedTokenizer;
+    }>({
+      task: 'feature-extraction',
+      modelId: this.modelId,
+      options: getPipelineOptions(this.settings),
+      abortSignal,
+      onProgress: createProgressListener(this.modelId, [
+        this.config.onProgress,
+        this.settings.onProgress,
+        onProgress,
+      ]),
+    });
+  }
+
+  /**
+   * Loads the model ahead of the first call, so that calls do not wait for the download.
+   */
+  async warmup({ runInference = false, onProgress, abortSignal }: HFTransformersjsWarmupOptions = {}): Promise<void> {
+    // Remote models have nothing to load
+    if (this.remoteModel != null) {
+      return;
+    }
+
+    const { pipeline: extractor, release } = await this.acquirePipeline(abortSignal, onProgress);
+    try {
+      if (runInference) {
+        await extractor(['Hello'], this.getExtractorOptions());
+      }
+    } finally {
+      release();
+    }
+  }
+
+  // Split the output of a batch into the outputs of its inputs. Tensors are split by their first
+  // dimension, the output of a single input is taken as it is
+  private splitBatchOutput(output: unknown, batchSize: number): unknown[] {
+    if (isTensorLike(output)) {
+      return output.tolist();
+    }
+    if (Array.isArray(output) && output.length === batchSize) {
+      return output;
+    }
+    if (batchSize === 1) {
+      return [output];
     }
-    // Return the pipeline instance, properly typed
-    return this.pipelineInstance as unknown as (input: string, options: any) => Promise<unknown>;
+    throw new Error('Unexpected output shape for a batch of inputs');
+  }
+
+  // Mean and CLS pooling and the normalization run in the pipeline. Last-token pooling picks from the
+  // unpooled output, and truncated or chunked embeddings are normalized after truncating or pooling
+  private getExtractorOptions(): ExtractorOptions {
+    const pooling = this.settings.pooling ?? 'mean';
+    return {
+      pooling: pooling === 'last' ? 'none' : pooling,
+      normalize: (this.settings.normalize ?? false) && this.settings.dimensions == null && this.settings.chunk == null,
+    };
+  }
+
+  // Reduce the token vectors of one input to its embedding. Pooled outputs hold a single vector
+  private poolTokenVectors(
+      tokenVectors: number[][],
+      { tokenCount, paddingSide }: { tokenCount: number; paddingSide?: string },
+  ): number[] {
+    switch (this.settings.pooling ?? 'mean') {
+      case 'cls':
+        return tokenVectors[0];
+      case 'last':
+        // padded inputs of a batch end before the padding, unless the tokenizer pads on the left
+        return paddingSide === 'left'
+          ? tokenVectors[tokenVectors.length - 1]
+          : tokenVectors[Math.min(tokenCount, tokenVectors.length) - 1];
+      case 'none':
+        // flattening the token vectors would give padded embeddings of varying size
+        if (tokenVectors.length !== 1) {
+          throw new Error(
+            `Pooling 'none' needs a model that pools its output, but the model returned ${tokenVectors.length} `
+            + "token vectors. Use 'mean', 'cls' or 'last' pooling instead.",
+          );
+        }
+        return tokenVectors[0];
+      case 'mean': {
+        const dim = tokenVectors[0].length;
+        const avg = new Array(dim).fill(0);
+        for (const vec of tokenVectors) {
+          if (vec && vec.length === dim) {
+            for (let i = 0; i < dim; i++) {
+              avg[i] += vec[i];
+            }
+          }
+        }
+        return avg.map(value => value / tokenVectors.length);
+      }
+    }
+  }
+
+  // Combine the embeddings of the chunks of a value, or return the embedding of an unchunked value
+  private poolChunkVectors(vectors: number[][]): number[] {
+    if (vectors.length === 1) {
+      return vectors[0];
+    }
+    const dim = vectors[0].length;
+    if (vectors.some(vector => vector.length !== dim)) {
+      throw new Error('The chunks of the value have embeddings of different sizes');
+    }
+
+    const pooling = this.settings.chunk?.pooling ?? 'mean';
+    return vectors[0].map((_, i) => {
+      const values = vectors.map(vector => vector[i]);
+      return pooling === 'max'
+        ? Math.max(...values)
+        : values.reduce((sum, value) => sum + value, 0) / values.length;
+    });
+  }
+
+  // Matryoshka truncation, followed by the normalization the pipeline skipped
+  private postprocessEmbedding(embedding: number[]): number[] {
+    const { dimensions, normalize, chunk } = this.settings;
+    if (dimensions == null && chunk == null) {
+      return embedding;
+    }
+
+    const truncated = dimensions != null ? embedding.slice(0, dimensions) : embedding;
+    if (!normalize) {
+      return truncated;
+    }
+    const norm = Math.sqrt(truncated.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? truncated.map(value => value / norm) : truncated;
+  }
+
+  // Split a value that is longer than the model accepts into overlapping chunks in chunk mode, or
+  // truncate it, and add the prefix to each text. The pipeline truncates the end of the values it is
+  // given
+  private splitInput(tokenizer: PreTrainedTokenizer, value: string): string[] {
+    const maxTokens = tokenizer.model_max_length;
+    const tokenIds = tokenizer.encode(value, { add_special_tokens: false });
+    const prefixTokens = this.template != null
+      ? tokenizer.encode(applyEmbeddingTemplate(this.template, ''), { add_special_tokens: false }).length
+      : 0;
+    const maxContentTokens = maxTokens - (tokenizer.encode(value).length - tokenIds.length) - prefixTokens;
+    const { chunk, truncation = 'truncate-end' } = this.settings;
+    const limit = chunk != null ? Math.min(chunk.size ?? maxContentTokens, maxContentTokens) : maxContentTokens;
+    const format = (text: string) => applyEmbeddingTemplate(this.template, text);
+    if (maxTokens == null || !(limit > 0) || tokenIds.length <= limit) {
+      return [format(value)];
+    }
+
+    const decode = (ids: number[]) => format(tokenizer.decode(ids, { skip_special_tokens: true }));
+
+    if (chunk != null) {
+      const overlap = Math.min(chunk.overlap ?? Math.floor(limit / 10), limit - 1);
+      const chunks: string[] = [];
+      for (let start = 0; ; start += limit - overlap) {
+        chunks.push(decode(tokenIds.slice(start, start + limit)));
+        if (start + limit >= tokenIds.length) {
+          return chunks;
+        }
+      }
+    }
+
+    switch (truncation) {
+      case 'error':
+        throw new Error(`The value has ${tokenIds.length} tokens, the model accepts ${limit}`);
+      case 'truncate-start':
+        return [decode(tokenIds.slice(tokenIds.length - limit))];
+      case 'truncate-end':
+        return [format(value)];
+    }
+  }
+
+  // Count the tokens the pipeline feeds to the model, special tokens included and after truncation
+  private countTokens(tokenizer: PreTrainedTokenizer, input: string): number {
+    const tokens = tokenizer.encode(input).length;
+    return Math.min(tokens, tokenizer.model_max_length ?? tokens);
   }
 
-  // Helper function to safely extract numeric arrays from pipeline outputs
+  // Helper function to extract numeric arrays from pipeline outputs, throwing for unknown outputs
   private extractVectorsFromOutput(output: unknown): number[][] {
     // Handle empty output
     if (!output) return [[]];
 
-    try {
-      // Case 1: If it's a Tensor with a data property
-      if (output && typeof output === 'object' && 'data' in output) {
-        const data = (output as any).data;
-        if (Array.isArray(data)) {
-          if (data.length === 0) return [[]];
-          return Array.isArray(data[0]) ? data : [data];
-        }
+    // Case 1: If it's a Tensor with a data property
+    if (output && typeof output === 'object' && 'data' in output) {
+      const data = (output as any).data;
+      if (Array.isArray(data)) {
+        if (data.length === 0) return [[]];
+        return Array.isArray(data[0]) ? data : [data];
       }
+    }
 
-      // Case 2: If it's an array
-      if (Array.isArray(output)) {
-        if (output.length === 0) return [[]];
+    // Case 2: If it's an array
+    if (Array.isArray(output)) {
+      if (output.length === 0) return [[]];
 
-        // Check if it contains numeric arrays
-        if (Array.isArray(output[0]) &&
-            output[0].length > 0 &&
-            typeof output[0][0] === 'number') {
-          return output as number[][];
-        }
+      // Check if it contains numeric arrays
+      if (Array.isArray(output[0]) &&
+          output[0].length > 0 &&
+          typeof output[0][0] === 'number') {
+        return output as number[][];
+      }
 
-        // Or if it's a flat numeric array
-        if (typeof output[0] === 'number') {
-          return [output as number[]];
-        }
+      // Or if it's a flat numeric array
+      if (typeof output[0] === 'number') {
+        return [output as number[]];
       }
+    }
 
-      // Case 3: If it has a toArray method (common for tensors)
-      if (output && typeof output === 'object' && 'toArray' in output &&
-          typeof (output as any).toArray === 'function') {
-        const arrayData = (output as any).toArray();
-        if (Array.isArray(arrayData)) {
-          if (arrayData.length === 0) return [[]];
-          return Array.isArray(arrayData[0]) ? arrayData : [arrayData];
-        }
+    // Case 3: If it has a toArray method (common for tensors)
+    if (output && typeof output === 'object' && 'toArray' in output &&
+        typeof (output as any).toArray === 'function') {
+      const arrayData = (output as any).toArray();
+      if (Array.isArray(arrayData)) {
+        if (arrayData.length === 0) return [[]];
+        return Array.isArray(arrayData[0]) ? arrayData : [arrayData];
       }
+    }
 
-      // Case 4: If it's a typed array or array-like object
-      if (output && typeof output === 'object' && 'length' in output) {
-        try {
-          const arrayData = Array.from(output as any);
-          if (arrayData.length === 0) return [[]];
-          return Array.isArray(arrayData[0]) ? arrayData as number[][] : [arrayData as number[]];
-        } catch (e) {
-          console.error("Failed to convert array-like object:", e);
-        }
+    // Case 4: If it's a typed array or array-like object
+    if (output && typeof output === 'object' && 'length' in output) {
+      try {
+        const arrayData = Array.from(output as any);
+        if (arrayData.length === 0) return [[]];
+        return Array.isArray(arrayData[0]) ? arrayData as number[][] : [arrayData as number[]];
+      } catch (e) {
+        this.logger.warn("Failed to convert array-like object", { error: e });
       }
+    }
 
-      // Case 5: For models that return objects with hidden vector data
-      // Some models may store vectors in specific properties
-      if (output && typeof output === 'object') {
-        for (const key of ['embedding', 'embeddings', 'vector', 'vectors', 'features']) {
-          if (key in output && Array.isArray((output as any)[key])) {
-            const vectorData = (output as any)[key];
-            if (vectorData.length === 0) return [[]];
-            return Array.isArray(vectorData[0]) ? vectorData : [vectorData];
-          }
+    // Case 5: For models that return objects with hidden vector data
+    // Some models may store vectors in specific properties
+    if (output && typeof output === 'object') {
+      for (const key of ['embedding', 'embeddings', 'vector', 'vectors', 'features']) {
+        if (key in output && Array.isArray((output as any)[key])) {
+          const vectorData = (output as any)[key];
+          if (vectorData.length === 0) return [[]];
+          return Array.isArray(vectorData[0]) ? vectorData : [vectorData];
         }
       }
-
-      // Last resort: try to stringify and parse to extract any numeric arrays
-      console.warn("Using fallback extraction method for pipeline output:", output);
-      return [[]];
-    } catch (error) {
-      console.error("Error extracting vectors from pipeline output:", error);
-      return [[]];
     }
+
+    throw new Error('Unexpected pipeline output');
   }
 
   async doEmbed(options: {
@@ -119,7 +320,11 @@ export class HFTransformersjsEmbeddingModel implements EmbeddingModelV1<string>
   }): Promise<{
     embeddings: EmbeddingModelV1Embedding[];
     usage?: { tokens: number };
-    rawResponse?: { headers?: Record<string, string> }
+    rawResponse?: { headers?: Record<string, string> };
+    /**
+     * Throughput of the call and the errors of skipped values under `hfTransformersjs`.
+     */
+    providerMetadata?: LanguageModelV1ProviderMetadata;
   }> {
     if (options.values.length > this.maxEmbeddingsPerCall) {
       throw new TooManyEmbeddingValuesForCallError({
@@ -130,51 +335,175 @@ export class HFTransformersjsEmbeddingModel implements EmbeddingModelV1<string>
       });
     }
 
-    const extractor = await this.ensurePipeline();
-    const embeddings: EmbeddingModelV1Embedding[] = [];
+    if (this.remoteModel != null) {
+      return this.remoteModel.doEmbed(options);
+    }
 
-    for (const input of options.values) {
-      try {
-        // Call the extractor with the input and empty options object to satisfy the type requirements
-        const output = await extractor(input, {});
+    const { pipeline: extractor, release } = await this.acquirePipeline(options.abortSignal);
+    const embeddings: EmbeddingModelV1Embedding[] = new Array(options.values.length);
+    const batchSize = this.settings.batchSize ?? 32;
+    const onError = this.settings.onError ?? 'throw';
+    const errors: HFTransformersjsEmbeddingError[] = [];
+    const startTime = Date.now();
+    let tokens = 0;
+    let batches = 0;
+    let dimensions: number | undefined;
+
+    const fail = (index: number, message: string, cause?: unknown) => {
+      if (errors.some(error => error.index === index)) {
+        return;
+      }
+      // Empty embeddings keep the embeddings aligned with the values
+      embeddings[index] = [];
+      const error = new HFTransformersjsEmbeddingError({
+        index,
+        value: options.values[index],
+        modelId: this.modelId,
+        message,
+        cause,
+      });
+      errors.push(error);
+      if (onError === 'skip') {
+        // the error holds the value, so only its position and message are logged
+        this.logger.warn("Skipping value that could not be embedded", {
+          index: error.index,
+          message: error.message,
+          modelId: error.modelId,
+        });
+      }
+    };
+    const throwOnError = () => {
+      if (onError === 'throw' && errors.length > 0) {
+        throw errors.reduce((first, error) => (error.index < first.index ? error : first));
+      }
+    };
 
-        // Extract properly formatted vectors from the output
-        const tokenVectors = this.extractVectorsFromOutput(output);
+    // The texts to embed: one per value, or one per chunk of a long value in chunk mode
+    const pieces: Array<{ index: number; text: string; tokenCount: number; vector?: number[] }> = [];
+    const chunkCounts = options.values.map(() => 0);
 
-        // Average the token vectors to obtain one embedding vector for the input
-        const numTokens = tokenVectors.length;
-        if (numTokens === 0 || (numTokens === 1 && tokenVectors[0].length === 0)) {
-          embeddings.push([]);
-          continue;
+    try {
+      options.values.forEach((value, index) => {
+        try {
+          for (const text of this.splitInput(extractor.tokenizer, value)) {
+            pieces.push({ index, text, tokenCount: this.countTokens(extractor.tokenizer, text) });
+            chunkCounts[index]++;
+          }
+        } catch (error) {
+          fail(index, getErrorMessage(error), error);
         }
+      });
+      throwOnError();
 
-        const dim = tokenVectors[0].length;
-        const avg = new Array(dim).fill(0);
+      // Token counts give the usage, the batch order and the last token of padded inputs
+      tokens = pieces.reduce((sum, piece) => sum + piece.tokenCount, 0);
 
-        for (const vec of tokenVectors) {
-          if (vec && vec.length === dim) {
-            for (let i = 0; i < dim; i++) {
-              avg[i] += vec[i];
+      // Inputs of similar length share a batch, which keeps the padding small
+      const order = [...pieces].sort((a, b) => a.tokenCount - b.tokenCount);
+
+      for (let start = 0; start < order.length; start += batchSize) {
+        // Stop between batches; a single forward pass cannot be interrupted
+        throwIfAborted(options.abortSignal);
+
+        const batch = order.slice(start, start + batchSize);
+        const embedBatch = async (texts: string[]) => {
+          const output = await extractor(texts, this.getExtractorOptions());
+          batches++;
+          return this.splitBatchOutput(output, texts.length);
+        };
+        let outputs: unknown[] = [];
+        try {
+          outputs = await embedBatch(batch.map(piece => piece.text));
+        } catch (error) {
+          throwIfAborted(options.abortSignal);
+          if (onError !== 'skip' || batch.length === 1) {
+            batch.forEach(piece => fail(piece.index, getErrorMessage(error), error));
+          } else {
+            // Embed the values one at a time, so that only the values that fail are skipped
+            for (const piece of batch) {
+              throwIfAborted(options.abortSignal);
+              try {
+                outputs.push((await embedBatch([piece.text]))[0]);
+              } catch (pieceError) {
+                throwIfAborted(options.abortSignal);
+                fail(piece.index, getErrorMessage(pieceError), pieceError);
+                outputs.push(undefined);
+              }
             }
           }
         }
 
-        for (let i = 0; i < dim; i++) {
-          avg[i] /= numTokens;
-        }
+        batch.forEach((piece, position) => {
+          if (outputs[position] === undefined) {
+            return;
+          }
+          try {
+            const tokenVectors = this.extractVectorsFromOutput(outputs[position]);
+            if (tokenVectors.length === 0 || (tokenVectors.length === 1 && tokenVectors[0].length === 0)) {
+              fail(piece.index, 'The pipeline returned an empty embedding');
+              return;
+            }
+            piece.vector = this.poolTokenVectors(tokenVectors, {
+              tokenCount: piece.tokenCount,
+              paddingSide: extractor.tokenizer.padding_side,
+            });
+          } catch (error) {
+            fail(piece.index, getErrorMessage(error), error);
+          }
+        });
+        throwOnError();
+      }
+      throwIfAborted(options.abortSignal);
+    } finally {
+      release();
+    }
 
-        embeddings.push(avg);
+    // Gather the embeddings in the order of the values
+    options.values.forEach((_, index) => {
+      if (embeddings[index] != null) {
+        return;
+      }
+      try {
+        const embedding = this.postprocessEmbedding(this.poolChunkVectors(
+            pieces.filter(piece => piece.index === index).map(piece => piece.vector!),
+        ));
+
+        // All embeddings of a call have the size of the first one
+        dimensions ??= this.settings.dimensions ?? embedding.length;
+        if (embedding.length !== dimensions) {
+          fail(index, `Expected ${dimensions} dimensions, got ${embedding.length}`);
+          return;
+        }
+        embeddings[index] = embedding;
       } catch (error) {
-        console.error(`Error embedding input "${input.substring(0, 50)}...":`, error);
-        // Return an empty vector on error to maintain array alignment with inputs
-        embeddings.push([]);
+        fail(index, getErrorMessage(error), error);
       }
-    }
+    });
+    throwOnError();
+
+    const seconds = Math.max(Date.now() - startTime, 1) / 1000;
 
     return {
       embeddings,
-      usage: { tokens: options.values.length },
-      rawResponse: { headers: options.headers }
+      usage: { tokens },
+      rawResponse: { headers: options.headers },
+      providerMetadata: {
+        hfTransformersjs: {
+          batchSize,
+          batches,
+          durationMs: seconds * 1000,
+          embeddingsPerSecond: options.values.length / seconds,
+          tokensPerSecond: tokens / seconds,
+          errors: errors
+            .sort((a, b) => a.index - b.index)
+            .map(error => ({ index: error.index, message: error.message })),
+          ...(this.settings.chunk != null ? { chunks: chunkCounts } : {}),
+        },
+      },
     };
   }
-}
\ No newline at end of file
+}
+
+function isTensorLike(output: unknown): output is TensorLike {
+  return output != null && typeof output === 'object' && 'tolist' in output && typeof output.tolist === 'function';
+}
@@ -0,0 +1,46 @@
+import { HFTransformersjsEmbeddingSettings } from './hf-transformersjs-settings';
+
+const searchQueryInstruction = 'Represent this sentence for searching relevant passages: ';
+
+// Prefixes of the model families that were trained with them, matched against the model id. The
+// first match wins, so more specific families come first
+const knownPrefixes: Array<{ pattern: RegExp; query: string; document: string }> = [
+  {
+    pattern: /multilingual-e5-[a-z]+-instruct/i,
+    query: 'Instruct: Given a web search query, retrieve relevant passages that answer the query\nQuery: ',
+    document: '',
+  },
+  { pattern: /(^|[/-])e5-/i, query: 'query: ', document: 'passage: ' },
+  { pattern: /nomic-embed-text/i, query: 'search_query: ', document: 'search_document: ' },
+  { pattern: /bge-[a-z]+-en/i, query: searchQueryInstruction, document: '' },
+  { pattern: /bge-[a-z]+-zh/i, query: '为这个句子生成表示以用于检索相关文章：', document: '' },
+  { pattern: /mxbai-embed-large/i, query: searchQueryInstruction, document: '' },
+  { pattern: /snowflake-arctic-embed/i, query: searchQueryInstruction, document: '' },
+];
+
+/**
+ * The template to embed the values of the model with: the `prefixes` of the settings, or the
+ * prefix the model family was trained with. Undefined when the settings have no input type or the
+ * model needs no prefix.
+ */
+export function getEmbeddingTemplate(
+    modelId: string,
+    { inputType, prefixes }: HFTransformersjsEmbeddingSettings,
+): string | undefined {
+  if (inputType == null) {
+    return undefined;
+  }
+  const template = prefixes?.[inputType]
+    ?? knownPrefixes.find(({ pattern }) => pattern.test(modelId))?.[inputType];
+  return template ? template : undefined;
+}
+
+/**
+ * Puts the text into the `{text}` placeholder of the template, or after a template without one.
+ */
+export function applyEmbeddingTemplate(template: string | undefined, text: string): string {
+  if (template == null) {
+    return text;
+  }
+  return template.includes('{text}') ? template.split('{text}').join(text) : `${template}${text}`;
+}
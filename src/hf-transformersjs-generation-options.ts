@@ -0,0 +1,81 @@
+import {
+  LanguageModelV1CallOptions,
+  LanguageModelV1CallWarning,
+} from '@ai-sdk/provider';
+import {
+  createSamplingLogitsProcessor,
+  HFTransformersjsLogitsProcessor,
+} from './hf-transformersjs-logits-processors';
+
+/**
+ * Generation config passed to the transformers.js pipeline, also reported as the raw call settings.
+ * It only has the keys that transformers.js knows; the other sampling settings are applied by the
+ * sampling logits processor.
+ */
+export type HFTransformersjsGenerationOptions = {
+  max_new_tokens: number;
+  do_sample: boolean;
+  temperature: number;
+};
+
+/**
+ * Translates the AI SDK call settings into a transformers.js generation config.
+ *
+ * transformers.js only applies `top_k` when sampling and draws from `Math.random`, so temperature,
+ * top-p, the penalties and seeded sampling are implemented by a logits processor that picks the
+ * next token itself. Without a temperature decoding is greedy, which ignores top-p, top-k and the
+ * seed.
+ */
+export function prepareGenerationOptions(options: LanguageModelV1CallOptions): {
+  generationOptions: HFTransformersjsGenerationOptions;
+  logitsProcessors: HFTransformersjsLogitsProcessor[];
+  warnings: LanguageModelV1CallWarning[];
+} {
+  const warnings: LanguageModelV1CallWarning[] = [];
+  const temperature = options.temperature ?? 0;
+  const doSample = temperature > 0;
+
+  if (!doSample) {
+    for (const setting of ['topP', 'topK', 'seed'] as const) {
+      if (options[setting] != null) {
+        warnings.push({
+          type: 'unsupported-setting',
+          setting,
+          details: `${setting} is ignored without a temperature, as decoding is greedy.`,
+        });
+      }
+    }
+  }
+
+  // Local models make no HTTP requests
+  if (options.headers != null) {
+    warnings.push({
+      type: 'unsupported-setting',
+      setting: 'headers',
+      details: 'Headers are only sent to inference servers.',
+    });
+  }
+
+  const generationOptions: HFTransformersjsGenerationOptions = {
+    max_new_tokens: options.maxTokens ?? 512,
+    do_sample: doSample,
+    temperature,
+  };
+
+  const needsProcessor = doSample
+    || options.presencePenalty != null
+    || options.frequencyPenalty != null;
+
+  const logitsProcessors = needsProcessor
+    ? [createSamplingLogitsProcessor({
+      temperature,
+      topP: doSample ? options.topP : undefined,
+      topK: doSample ? options.topK : undefined,
+      presencePenalty: options.presencePenalty,
+      frequencyPenalty: options.frequencyPenalty,
+      seed: doSample ? options.seed : undefined,
+    })]
+    : [];
+
+  return { generationOptions, logitsProcessors, warnings };
+}
@@ -0,0 +1,86 @@
+import { PreTrainedTokenizer } from "@huggingface/transformers";
+import { LanguageModelV1FinishReason } from '@ai-sdk/provider';
+import { HFTransformersjsStoppingCriterion } from './hf-transformersjs-stop-sequences';
+import { mapOpenAICompatibleFinishReason } from './map-openai-compatible-finish-reason';
+
+/**
+ * Records the generated token ids so that the finish reason and the token usage can be reported
+ * afterwards.
+ *
+ * The stopping criterion never stops generation itself; it observes the ids after every step.
+ */
+export function createGenerationTracker({
+  tokenizer,
+  eosTokenIds,
+  maxNewTokens,
+}: {
+  tokenizer: PreTrainedTokenizer;
+  eosTokenIds: number[];
+  maxNewTokens: number;
+}): {
+  stoppingCriterion: HFTransformersjsStoppingCriterion;
+  getFinishReason: (options: {
+    hasToolCalls: boolean;
+    stopSequenceFound: boolean;
+    output?: unknown;
+  }) => LanguageModelV1FinishReason;
+  getUsage: (options: { promptText: string; generatedText: string }) => {
+    promptTokens: number;
+    completionTokens: number;
+  };
+} {
+  let promptLength: number | undefined;
+  let generatedTokens: number | undefined;
+  let lastTokenId: number | undefined;
+
+  return {
+    stoppingCriterion: inputIds => {
+      // the first call happens after the first token was generated:
+      promptLength ??= inputIds[0].length - 1;
+      generatedTokens = inputIds[0].length - promptLength;
+      lastTokenId = Number(inputIds[0][inputIds[0].length - 1]);
+      return inputIds.map(() => false);
+    },
+
+    getFinishReason({ hasToolCalls, stopSequenceFound, output }) {
+      return mapOpenAICompatibleFinishReason(
+        hasToolCalls ? 'tool_calls' : getRawFinishReason(stopSequenceFound) ?? getOutputFinishReason(output),
+      );
+    },
+
+    getUsage({ promptText, generatedText }) {
+      return {
+        // the text generation pipeline encodes the prompt without special tokens:
+        promptTokens: countTokens(tokenizer, promptText),
+        // the generated ids also include text cut off at a stop sequence:
+        completionTokens: generatedTokens ?? countTokens(tokenizer, generatedText),
+      };
+    },
+  };
+
+  function getRawFinishReason(stopSequenceFound: boolean): string | undefined {
+    if (stopSequenceFound) {
+      return 'stop';
+    }
+    if (lastTokenId == null) {
+      return undefined;
+    }
+    if (eosTokenIds.includes(lastTokenId)) {
+      return 'stop';
+    }
+    // otherwise generation ran until the token limit, or a stopping criterion ended it early:
+    return generatedTokens != null && generatedTokens >= maxNewTokens ? 'length' : 'stop';
+  }
+}
+
+/**
+ * Finish reason reported by the pipeline output, if it has one.
+ */
+function getOutputFinishReason(output: unknown): string | undefined {
+  const first = Array.isArray(output) ? output[0] : output;
+  return (first as { finish_reason?: string } | undefined)?.finish_reason;
+}
+
+function countTokens(tokenizer: PreTrainedTokenizer, text: string): number {
+  return text ? tokenizer.encode(text, { add_special_tokens: false }).length : 0;
+}
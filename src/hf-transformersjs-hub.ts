@@ -0,0 +1,139 @@
+import { env } from '@huggingface/transformers';
+
+/**
+ * Where and how the models are downloaded from.
+ */
+export interface HFTransformersjsHubSettings {
+  /**
+   * Hugging Face access token, needed for gated and private models. Defaults to the provider
+   * `apiKey` when no `baseURL` is set. transformers.js only sends it to huggingface.co and hf.co,
+   * and only in Node.js, so it does not authenticate downloads from a `remoteHost` mirror.
+   */
+  token?: string;
+
+  /**
+   * Host to download the models from instead of the Hugging Face Hub, e.g. a mirror.
+   */
+  remoteHost?: string;
+
+  /**
+   * Path of the model files on the remote host. Defaults to `{model}/resolve/{revision}/`.
+   */
+  remotePathTemplate?: string;
+
+  /**
+   * Directory with local copies of the models, looked up before downloading them.
+   */
+  localModelPath?: string;
+
+  /**
+   * Only load models from the local model directory and the cache, never download them.
+   */
+  offline?: boolean;
+
+  /**
+   * Directory to cache the downloaded files in.
+   */
+  cacheDir?: string;
+}
+
+type LoadOptions = {
+  cache_dir?: string;
+  local_files_only?: boolean;
+};
+
+// The loads that currently run with the global settings of `key`
+let activeGroup: {
+  key: string;
+  loads: number;
+  restore: () => void;
+  idle: Promise<void>;
+  setIdle: () => void;
+} | undefined;
+
+/**
+ * Loads with the hub settings applied and returns the result of `load`, which gets the options to
+ * load the pipeline with.
+ *
+ * Most of these settings are global in transformers.js. They are applied for the duration of the
+ * load and restored afterwards; loads with other settings wait until it is done, while loads with
+ * the same settings run alongside it.
+ */
+export async function withHubSettings<T>(
+    settings: HFTransformersjsHubSettings | undefined,
+    load: (options: LoadOptions) => Promise<T>,
+): Promise<T> {
+  const key = JSON.stringify(settings ?? {});
+  while (activeGroup != null && activeGroup.key !== key) {
+    await activeGroup.idle;
+  }
+
+  if (activeGroup == null) {
+    let setIdle!: () => void;
+    const idle = new Promise<void>(resolve => {
+      setIdle = resolve;
+    });
+    activeGroup = { key, loads: 0, restore: applyGlobalSettings(settings), idle, setIdle };
+  }
+
+  const group = activeGroup;
+  group.loads++;
+  try {
+    return await load({
+      ...(settings?.cacheDir != null ? { cache_dir: settings.cacheDir } : {}),
+      ...(settings?.offline ? { local_files_only: true } : {}),
+    });
+  } finally {
+    group.loads--;
+    if (group.loads === 0) {
+      group.restore();
+      activeGroup = undefined;
+      group.setIdle();
+    }
+  }
+}
+
+// Sets the global settings and returns the function that restores the previous ones
+function applyGlobalSettings(settings: HFTransformersjsHubSettings | undefined): () => void {
+  if (settings == null) {
+    return () => {};
+  }
+
+  const hasProcessEnv = typeof process !== 'undefined' && process.env != null;
+  const previousToken = hasProcessEnv ? process.env.HF_TOKEN : undefined;
+  const previousEnv = {
+    remoteHost: env.remoteHost,
+    remotePathTemplate: env.remotePathTemplate,
+    allowLocalModels: env.allowLocalModels,
+    localModelPath: env.localModelPath,
+    allowRemoteModels: env.allowRemoteModels,
+  };
+
+  if (settings.token != null && hasProcessEnv) {
+    process.env.HF_TOKEN = settings.token;
+  }
+  if (settings.remoteHost != null) {
+    env.remoteHost = settings.remoteHost.endsWith('/') ? settings.remoteHost : `${settings.remoteHost}/`;
+  }
+  if (settings.remotePathTemplate != null) {
+    env.remotePathTemplate = settings.remotePathTemplate;
+  }
+  if (settings.localModelPath != null) {
+    env.allowLocalModels = true;
+    env.localModelPath = settings.localModelPath;
+  }
+  if (settings.offline != null) {
+    env.allowRemoteModels = !settings.offline;
+  }
+
+  return () => {
+    Object.assign(env, previousEnv);
+    if (settings.token != null && hasProcessEnv) {
+      if (previousToken == null) {
+        delete process.env.HF_TOKEN;
+      } else {
+        process.env.HF_TOKEN = previousToken;
+      }
+    }
+  };
+}
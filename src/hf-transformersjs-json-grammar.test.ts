@@ -0,0 +1,141 @@
+// @ts-nocheck
+import { describe, it, expect } from "vitest";
+import {
+  advanceJsonGrammarState,
+  createJsonGrammarState,
+  isJsonGrammarStateComplete,
+} from "./hf-transformersjs-json-grammar";
+
+// Whether the text is a complete document of the schema
+function accepts(schema, text) {
+  const state = advanceJsonGrammarState(createJsonGrammarState(schema), text);
+  return state != null && isJsonGrammarStateComplete(state);
+}
+
+// Whether the text can be continued to a document of the schema
+function acceptsPrefix(schema, text) {
+  return advanceJsonGrammarState(createJsonGrammarState(schema), text) != null;
+}
+
+describe("JSON grammar", () => {
+  it("should accept any JSON value without a schema", () => {
+    expect(accepts(undefined, '{"a": [1, 2.5e3, "x", true, null]}')).toBe(true);
+    expect(accepts(undefined, "-0.5")).toBe(true);
+    expect(acceptsPrefix(undefined, "{'a'")).toBe(false);
+    expect(acceptsPrefix(undefined, "[1,]")).toBe(false);
+    expect(acceptsPrefix(undefined, "01")).toBe(false);
+  });
+
+  it("should not complete an unfinished document", () => {
+    const state = advanceJsonGrammarState(createJsonGrammarState(), '{"a": 1');
+
+    expect(state).not.toBeUndefined();
+    expect(isJsonGrammarStateComplete(state)).toBe(false);
+  });
+
+  it("should only allow the declared properties and require the required ones", () => {
+    const schema = {
+      type: "object",
+      properties: { name: { type: "string" }, age: { type: "integer" } },
+      required: ["name"],
+      additionalProperties: false,
+    };
+
+    expect(accepts(schema, '{"name": "Ada", "age": 36}')).toBe(true);
+    expect(accepts(schema, '{"age": 36}')).toBe(false);
+    expect(acceptsPrefix(schema, '{"nick')).toBe(false);
+    expect(acceptsPrefix(schema, '{"age": 36.5')).toBe(false);
+  });
+
+  it("should reject duplicate keys", () => {
+    const closed = {
+      type: "object",
+      properties: { a: { type: "number" } },
+      additionalProperties: false,
+    };
+
+    expect(acceptsPrefix(undefined, '{"a": 1, "a"')).toBe(false);
+    expect(acceptsPrefix(undefined, '{"a": 1, "\\u0061"')).toBe(false);
+    expect(acceptsPrefix(closed, '{"a": 1, "a"')).toBe(false);
+    expect(accepts(undefined, '{"a": 1, "ab": 2}')).toBe(true);
+  });
+
+  it("should enforce the string length bounds", () => {
+    const schema = { type: "string", minLength: 2, maxLength: 3 };
+
+    expect(accepts(schema, '"a"')).toBe(false);
+    expect(accepts(schema, '"ab"')).toBe(true);
+    expect(accepts(schema, '"abc"')).toBe(true);
+    expect(acceptsPrefix(schema, '"abcd')).toBe(false);
+    // escapes count as one character:
+    expect(accepts(schema, '"\\n\\u00e9"')).toBe(true);
+    expect(acceptsPrefix(schema, '"abc\\')).toBe(false);
+  });
+
+  it("should enforce the number range", () => {
+    const schema = { type: "number", minimum: -1, maximum: 10 };
+
+    expect(accepts(schema, "10")).toBe(true);
+    expect(accepts(schema, "-1")).toBe(true);
+    expect(accepts(schema, "2.75")).toBe(true);
+    expect(acceptsPrefix(schema, "11")).toBe(false);
+    expect(acceptsPrefix(schema, "10.5")).toBe(false);
+    expect(acceptsPrefix(schema, "-2")).toBe(false);
+    expect(acceptsPrefix(schema, "1e1")).toBe(false);
+  });
+
+  it("should only allow prefixes that can reach the range", () => {
+    const schema = { type: "number", minimum: 100 };
+
+    // "1" can still become 100 or more:
+    expect(acceptsPrefix(schema, "1")).toBe(true);
+    expect(accepts(schema, "1")).toBe(false);
+    expect(acceptsPrefix(schema, "1.")).toBe(false);
+    expect(acceptsPrefix(schema, "-")).toBe(false);
+    expect(acceptsPrefix(schema, "0")).toBe(false);
+    expect(accepts(schema, "150")).toBe(true);
+  });
+
+  it("should enforce exclusive bounds of integers", () => {
+    const schema = { type: "integer", exclusiveMinimum: 0, exclusiveMaximum: 5 };
+
+    expect(accepts(schema, "0")).toBe(false);
+    expect(accepts(schema, "1")).toBe(true);
+    expect(accepts(schema, "4")).toBe(true);
+    expect(acceptsPrefix(schema, "5")).toBe(false);
+    expect(acceptsPrefix(schema, "-")).toBe(false);
+  });
+
+  it("should enforce the item count bounds", () => {
+    const schema = { type: "array", items: { type: "integer" }, minItems: 1, maxItems: 2 };
+
+    expect(accepts(schema, "[]")).toBe(false);
+    expect(accepts(schema, "[1]")).toBe(true);
+    expect(accepts(schema, "[1, 2]")).toBe(true);
+    expect(acceptsPrefix(schema, "[1, 2,")).toBe(false);
+    expect(acceptsPrefix(schema, '[1, "a"')).toBe(false);
+  });
+
+  it("should match enums, consts and alternatives", () => {
+    const schema = {
+      anyOf: [
+        { enum: ["red", "green"] },
+        { const: 3 },
+        { type: "array", items: { $ref: "#/definitions/flag" } },
+      ],
+      definitions: { flag: { type: "boolean" } },
+    };
+
+    expect(accepts(schema, '"green"')).toBe(true);
+    expect(accepts(schema, "3")).toBe(true);
+    expect(accepts(schema, "[true, false]")).toBe(true);
+    expect(acceptsPrefix(schema, '"blue')).toBe(false);
+    expect(acceptsPrefix(schema, "4")).toBe(false);
+    expect(acceptsPrefix(schema, "[null")).toBe(false);
+  });
+
+  it("should limit whitespace runs outside of strings", () => {
+    expect(acceptsPrefix(undefined, `{${" ".repeat(33)}`)).toBe(false);
+    expect(accepts(undefined, `"${" ".repeat(64)}"`)).toBe(true);
+  });
+});
@@ -0,0 +1,631 @@
+import { JSONSchema7, JSONSchema7Definition } from '@ai-sdk/provider';
+
+/**
+ * Character-level recognizer for JSON text that conforms to a JSON Schema.
+ *
+ * The recognizer is a non-deterministic pushdown automaton: every state holds a set of
+ * parser stacks, one per schema alternative (`anyOf`, `oneOf`, type unions, enums) that is
+ * still consistent with the text seen so far. States are immutable, so a state can be
+ * advanced speculatively with many candidate tokens.
+ *
+ * Supported keywords: `type`, `properties`, `required`, `additionalProperties`, `items`,
+ * `prefixItems`, `minItems`, `maxItems`, `minLength`, `maxLength`, `minimum`, `maximum`,
+ * `exclusiveMinimum`, `exclusiveMaximum`, `enum`, `const`, `anyOf`, `oneOf`, `allOf` and
+ * local `$ref`s (`#`, `#/definitions/...`, `#/$defs/...`). Other keywords, such as `pattern`
+ * and `format`, are ignored. Duplicate object keys are rejected, and numbers with a range are
+ * written without an exponent.
+ */
+export interface JsonGrammarState {
+  readonly root: Schema;
+  readonly stacks: ReadonlyArray<Stack>;
+  readonly whitespaceRun: number;
+}
+
+/**
+ * Upper bound for consecutive whitespace outside of strings. Prevents constrained models
+ * from padding the output with endless newlines.
+ */
+const MAX_WHITESPACE_RUN = 32;
+
+/**
+ * Upper bound for parser stacks that are tracked at once.
+ */
+const MAX_STACKS = 64;
+
+type Schema = JSONSchema7Definition;
+
+type Frame =
+  | { type: 'value'; schema: Schema }
+  | {
+    type: 'object';
+    schema: JSONSchema7;
+    keys: ReadonlyArray<string>;
+    phase: 'start' | 'key' | 'colon' | 'comma-or-end';
+  }
+  | {
+    type: 'array';
+    schema: JSONSchema7;
+    count: number;
+    phase: 'start' | 'comma-or-end';
+  }
+  | {
+    type: 'string';
+    value: string;
+    // number of characters, with escapes counted as the character they stand for:
+    length: number;
+    escape: 'none' | 'escape' | number;
+    // hex digits of the \u escape read so far:
+    hex?: string;
+    minLength?: number;
+    maxLength?: number;
+    // allowed values of object keys, undefined when any key is allowed:
+    keyCandidates?: ReadonlyArray<string>;
+  }
+  | { type: 'number'; text: string; integer: boolean; range?: NumberRange }
+  | { type: 'literal'; text: string; options: ReadonlyArray<string> };
+
+type Stack = ReadonlyArray<Frame>;
+
+interface NumberRange {
+  min: number;
+  minExclusive: boolean;
+  max: number;
+  maxExclusive: boolean;
+}
+
+interface Grammar {
+  root: Schema;
+}
+
+/**
+ * Creates the initial state for a document that matches the schema. Without a schema,
+ * any JSON value is accepted.
+ */
+export function createJsonGrammarState(schema?: JSONSchema7): JsonGrammarState {
+  const root = schema ?? true;
+  return {
+    root,
+    stacks: [[{ type: 'value', schema: root }]],
+    whitespaceRun: 0,
+  };
+}
+
+/**
+ * Advances the state by the given text. Returns `undefined` when the text cannot
+ * continue a valid document.
+ */
+export function advanceJsonGrammarState(
+  state: JsonGrammarState,
+  text: string,
+): JsonGrammarState | undefined {
+  const grammar: Grammar = { root: state.root };
+  let stacks = state.stacks;
+  let whitespaceRun = state.whitespaceRun;
+
+  for (const ch of text) {
+    const next: Stack[] = [];
+    for (const stack of stacks) {
+      for (const result of step(grammar, stack, ch)) {
+        if (next.length < MAX_STACKS) {
+          next.push(result);
+        }
+      }
+    }
+
+    if (next.length === 0) {
+      return undefined;
+    }
+
+    const inString = next.every(stack => stack[stack.length - 1]?.type === 'string');
+    whitespaceRun = isWhitespace(ch) && !inString ? whitespaceRun + 1 : 0;
+    if (whitespaceRun > MAX_WHITESPACE_RUN) {
+      return undefined;
+    }
+
+    stacks = next;
+  }
+
+  return { root: state.root, stacks, whitespaceRun };
+}
+
+/**
+ * Whether the text seen so far is a complete document.
+ */
+export function isJsonGrammarStateComplete(state: JsonGrammarState): boolean {
+  return state.stacks.some(stack =>
+    stack.length === 0
+    || (stack.length === 1 && stack[0].type === 'number' && isCompleteNumberFrame(stack[0])),
+  );
+}
+
+function step(grammar: Grammar, stack: Stack, ch: string): Stack[] {
+  if (stack.length === 0) {
+    // the root value is complete, only trailing whitespace may follow:
+    return isWhitespace(ch) ? [stack] : [];
+  }
+
+  const top = stack[stack.length - 1];
+  const rest = stack.slice(0, -1);
+
+  switch (top.type) {
+    case 'value': {
+      if (isWhitespace(ch)) {
+        return [stack];
+      }
+      return startValue(grammar, rest, top.schema, ch);
+    }
+
+    case 'string': {
+      if (top.escape === 'escape') {
+        if (ch === 'u') {
+          return [[...rest, { ...top, escape: 4, hex: '' }]];
+        }
+        const unescaped = ESCAPES[ch];
+        return unescaped == null ? [] : appendToString(rest, top, unescaped);
+      }
+
+      if (typeof top.escape === 'number') {
+        if (!/[0-9a-f]/i.test(ch)) {
+          return [];
+        }
+        // escaped characters never match object key candidates:
+        if (top.keyCandidates != null) {
+          return [];
+        }
+        const hex = (top.hex ?? '') + ch;
+        if (top.escape > 1) {
+          return [[...rest, { ...top, escape: top.escape - 1, hex }]];
+        }
+        return appendToString(rest, { ...top, hex: undefined }, String.fromCharCode(parseInt(hex, 16)));
+      }
+
+      if (ch === '"') {
+        if (top.keyCandidates != null && !top.keyCandidates.includes(top.value)) {
+          return [];
+        }
+        if (top.minLength != null && top.length < top.minLength) {
+          return [];
+        }
+        return complete(rest, top);
+      }
+      if (ch === '\\') {
+        // an escape adds a character as well:
+        if (top.maxLength != null && top.length >= top.maxLength) {
+          return [];
+        }
+        return [[...rest, { ...top, escape: 'escape' }]];
+      }
+      if (ch < ' ') {
+        return [];
+      }
+      return appendToString(rest, top, ch);
+    }
+
+    case 'number': {
+      const text = top.text + ch;
+      if (isNumberFramePrefix(top, text)) {
+        return [[...rest, { ...top, text }]];
+      }
+      if (!isCompleteNumberFrame(top)) {
+        return [];
+      }
+      // the character terminates the number and belongs to the parent:
+      return complete(rest, top).flatMap(parent => step(grammar, parent, ch));
+    }
+
+    case 'literal': {
+      const text = top.text + ch;
+      const options = top.options.filter(option => option.startsWith(text));
+      const results: Stack[] = [];
+      if (options.includes(text)) {
+        results.push(...complete(rest, top));
+      }
+      if (options.some(option => option.length > text.length)) {
+        results.push([...rest, { ...top, text, options }]);
+      }
+      return results;
+    }
+
+    case 'object': {
+      if (isWhitespace(ch)) {
+        return [stack];
+      }
+
+      const { schema, keys, phase } = top;
+      switch (phase) {
+        case 'start':
+        case 'key': {
+          if (ch === '"') {
+            const keyCandidates = getKeyCandidates(schema, keys);
+            if (keyCandidates != null && keyCandidates.length === 0) {
+              return [];
+            }
+            return [[...stack, { type: 'string', value: '', length: 0, escape: 'none', keyCandidates }]];
+          }
+          if (ch === '}' && phase === 'start') {
+            return hasRequiredKeys(schema, keys) ? complete(rest, top) : [];
+          }
+          return [];
+        }
+        case 'colon': {
+          if (ch !== ':') {
+            return [];
+          }
+          const key = keys[keys.length - 1];
+          return [[
+            ...rest,
+            { ...top, phase: 'comma-or-end' },
+            { type: 'value', schema: getPropertySchema(schema, key) },
+          ]];
+        }
+        case 'comma-or-end': {
+          if (ch === ',') {
+            const keyCandidates = getKeyCandidates(schema, keys);
+            return keyCandidates != null && keyCandidates.length === 0
+              ? []
+              : [[...rest, { ...top, phase: 'key' }]];
+          }
+          if (ch === '}') {
+            return hasRequiredKeys(schema, keys) ? complete(rest, top) : [];
+          }
+          return [];
+        }
+      }
+      return [];
+    }
+
+    case 'array': {
+      if (isWhitespace(ch)) {
+        return [stack];
+      }
+
+      const { schema, count, phase } = top;
+      if (ch === ']') {
+        return count >= (schema.minItems ?? 0) ? complete(rest, top) : [];
+      }
+
+      if (phase === 'start') {
+        if (schema.maxItems === 0) {
+          return [];
+        }
+        return step(grammar, [
+          ...rest,
+          { ...top, phase: 'comma-or-end', count: 1 },
+          { type: 'value', schema: getItemSchema(schema, 0) },
+        ], ch);
+      }
+
+      if (ch === ',' && (schema.maxItems == null || count < schema.maxItems)) {
+        return [[
+          ...rest,
+          { ...top, count: count + 1 },
+          { type: 'value', schema: getItemSchema(schema, count) },
+        ]];
+      }
+      return [];
+    }
+  }
+}
+
+/**
+ * Pops a completed frame and updates its parent.
+ */
+function complete(rest: Stack, frame: Frame): Stack[] {
+  const parent = rest[rest.length - 1];
+
+  // a completed string inside an object that expects a key is that key:
+  if (
+    frame.type === 'string'
+    && parent?.type === 'object'
+    && (parent.phase === 'start' || parent.phase === 'key')
+  ) {
+    if (parent.keys.includes(frame.value)) {
+      return [];
+    }
+    return [[
+      ...rest.slice(0, -1),
+      { ...parent, phase: 'colon', keys: [...parent.keys, frame.value] },
+    ]];
+  }
+
+  return [rest];
+}
+
+function startValue(grammar: Grammar, rest: Stack, schema: Schema, ch: string): Stack[] {
+  const results: Stack[] = [];
+
+  for (const alternative of getAlternatives(grammar, schema)) {
+    if (alternative === false) {
+      continue;
+    }
+
+    const concrete = alternative === true ? {} : alternative;
+
+    if (concrete.const !== undefined || concrete.enum != null) {
+      const values = concrete.const !== undefined ? [concrete.const] : concrete.enum!;
+      const literal: Frame = { type: 'literal', text: '', options: values.map(value => JSON.stringify(value)) };
+      results.push(...step(grammar, [...rest, literal], ch));
+      continue;
+    }
+
+    for (const type of getTypes(concrete)) {
+      switch (type) {
+        case 'object': {
+          if (ch === '{') {
+            results.push([...rest, { type: 'object', schema: concrete, keys: [], phase: 'start' }]);
+          }
+          break;
+        }
+        case 'array': {
+          if (ch === '[') {
+            results.push([...rest, { type: 'array', schema: concrete, count: 0, phase: 'start' }]);
+          }
+          break;
+        }
+        case 'string': {
+          if (ch === '"') {
+            const { minLength, maxLength } = concrete;
+            results.push([...rest, { type: 'string', value: '', length: 0, escape: 'none', minLength, maxLength }]);
+          }
+          break;
+        }
+        case 'number':
+        case 'integer': {
+          const number: Frame = { type: 'number', text: ch, integer: type === 'integer', range: getNumberRange(concrete) };
+          if (isNumberFramePrefix(number, ch)) {
+            results.push([...rest, number]);
+          }
+          break;
+        }
+        case 'boolean': {
+          results.push(...step(grammar, [...rest, { type: 'literal', text: '', options: ['true', 'false'] }], ch));
+          break;
+        }
+        case 'null': {
+          results.push(...step(grammar, [...rest, { type: 'literal', text: '', options: ['null'] }], ch));
+          break;
+        }
+      }
+    }
+  }
+
+  return results;
+}
+
+const ALL_TYPES = ['object', 'array', 'string', 'number', 'boolean', 'null'] as const;
+
+function getTypes(schema: JSONSchema7): ReadonlyArray<string> {
+  if (schema.type != null) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    // integers are numbers, so "number" already covers them:
+    return types.includes('number') ? types.filter(type => type !== 'integer') : types;
+  }
+  if (schema.properties != null || schema.required != null) {
+    return ['object'];
+  }
+  if (schema.items != null) {
+    return ['array'];
+  }
+  return ALL_TYPES;
+}
+
+/**
+ * Expands references, `allOf`, `anyOf` and `oneOf` into the list of plain schemas a value may match.
+ */
+function getAlternatives(grammar: Grammar, schema: Schema, depth = 0): Schema[] {
+  if (typeof schema === 'boolean' || depth > 32) {
+    return [schema];
+  }
+
+  if (schema.$ref != null) {
+    const { $ref, ...siblings } = schema;
+    const target = resolveRef(grammar.root, $ref);
+    return getAlternatives(
+      grammar,
+      Object.keys(siblings).length > 0 && typeof target === 'object' ? { ...target, ...siblings } : target,
+      depth + 1,
+    );
+  }
+
+  if (schema.allOf != null) {
+    const { allOf, ...base } = schema;
+    return getAlternatives(grammar, allOf.reduce<Schema>(mergeSchemas, base), depth + 1);
+  }
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants != null) {
+    const { anyOf, oneOf, ...base } = schema;
+    return variants.flatMap(variant =>
+      getAlternatives(grammar, typeof variant === 'object' ? { ...base, ...variant } : variant, depth + 1));
+  }
+
+  return [schema];
+}
+
+function resolveRef(root: Schema, ref: string): Schema {
+  if (ref === '#') {
+    return root;
+  }
+  if (!ref.startsWith('#/')) {
+    // remote references are not supported, accept any value:
+    return true;
+  }
+
+  let target: unknown = root;
+  for (const segment of ref.slice(2).split('/')) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = target != null && typeof target === 'object' ? (target as Record<string, unknown>)[key] : undefined;
+  }
+  return (target as Schema | undefined) ?? true;
+}
+
+function mergeSchemas(left: Schema, right: Schema): Schema {
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    return left === false || right === false ? false : left === true ? right : left;
+  }
+  return {
+    ...left,
+    ...right,
+    properties: left.properties != null || right.properties != null
+      ? { ...left.properties, ...right.properties }
+      : undefined,
+    required: left.required != null || right.required != null
+      ? [...(left.required ?? []), ...(right.required ?? [])]
+      : undefined,
+  };
+}
+
+function getKeyCandidates(schema: JSONSchema7, keys: ReadonlyArray<string>): ReadonlyArray<string> | undefined {
+  if (schema.additionalProperties !== false) {
+    return undefined;
+  }
+  return Object.keys(schema.properties ?? {}).filter(key => !keys.includes(key));
+}
+
+function getPropertySchema(schema: JSONSchema7, key: string): Schema {
+  return schema.properties?.[key] ?? schema.additionalProperties ?? true;
+}
+
+function getItemSchema(schema: JSONSchema7, index: number): Schema {
+  const prefixItems = (schema as { prefixItems?: Schema[] }).prefixItems;
+  if (prefixItems != null && index < prefixItems.length) {
+    return prefixItems[index];
+  }
+  if (Array.isArray(schema.items)) {
+    return schema.items[index] ?? schema.additionalItems ?? true;
+  }
+  return schema.items ?? true;
+}
+
+function hasRequiredKeys(schema: JSONSchema7, keys: ReadonlyArray<string>): boolean {
+  return (schema.required ?? []).every(key => keys.includes(key));
+}
+
+function appendToString(rest: Stack, frame: Frame & { type: 'string' }, ch: string): Stack[] {
+  const value = frame.value + ch;
+  if (frame.keyCandidates != null && !frame.keyCandidates.some(key => key.startsWith(value))) {
+    return [];
+  }
+  if (frame.maxLength != null && frame.length >= frame.maxLength) {
+    return [];
+  }
+  return [[...rest, { ...frame, value, length: frame.length + 1, escape: 'none' }]];
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  'b': '\b',
+  'f': '\f',
+  'n': '\n',
+  'r': '\r',
+  't': '\t',
+};
+
+function isWhitespace(ch: string): boolean {
+  return ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t';
+}
+
+function getNumberRange(schema: JSONSchema7): NumberRange | undefined {
+  const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema;
+  if (minimum == null && maximum == null && exclusiveMinimum == null && exclusiveMaximum == null) {
+    return undefined;
+  }
+  return {
+    min: Math.max(minimum ?? -Infinity, exclusiveMinimum ?? -Infinity),
+    minExclusive: exclusiveMinimum != null && exclusiveMinimum >= (minimum ?? -Infinity),
+    max: Math.min(maximum ?? Infinity, exclusiveMaximum ?? Infinity),
+    maxExclusive: exclusiveMaximum != null && exclusiveMaximum <= (maximum ?? Infinity),
+  };
+}
+
+function isNumberFramePrefix(frame: Frame & { type: 'number' }, text: string): boolean {
+  return isNumberPrefix(text, frame.integer)
+    && (frame.range == null || canReachRange(text, frame.integer, frame.range));
+}
+
+function isCompleteNumberFrame(frame: Frame & { type: 'number' }): boolean {
+  if (!isCompleteNumber(frame.text, frame.integer)) {
+    return false;
+  }
+  const value = Number(frame.text);
+  return frame.range == null || overlapsRange(value, value, false, false, frame.range);
+}
+
+/**
+ * Whether the number prefix can be completed to a number in the range. Exponents are not
+ * supported here, so prefixes with one are rejected.
+ */
+function canReachRange(text: string, integer: boolean, range: NumberRange): boolean {
+  const match = /^(-?)(\d*)(?:\.(\d*))?$/.exec(text);
+  if (match == null) {
+    return false;
+  }
+
+  const [, sign, digits, fraction] = match;
+  const bounds = integer ? getIntegerRange(range) : range;
+  // whether a magnitude from low up to high is in the range:
+  const reaches = (low: number, high: number, highOpen: boolean) => sign === '-'
+    ? overlapsRange(-high, -low, highOpen, false, bounds)
+    : overlapsRange(low, high, false, highOpen, bounds);
+
+  if (digits === '') {
+    return reaches(0, Infinity, false);
+  }
+  if (fraction != null) {
+    const low = Number(`${digits}.${fraction}`);
+    return reaches(low, low + 10 ** -fraction.length, true);
+  }
+  if (digits === '0') {
+    return integer ? reaches(0, 0, false) : reaches(0, 1, true);
+  }
+
+  // more digits can follow, each multiplying the magnitude by ten:
+  const leading = Number(digits);
+  for (let scale = 1; leading * scale <= Number.MAX_VALUE; scale *= 10) {
+    const low = leading * scale;
+    const high = (leading + 1) * scale;
+    if (integer ? reaches(low, high - 1, false) : reaches(low, high, true)) {
+      return true;
+    }
+    if (sign === '-' ? -low < bounds.min : low > bounds.max) {
+      return false;
+    }
+  }
+  return false;
+}
+
+// The closed range of the integers in the range
+function getIntegerRange(range: NumberRange): NumberRange {
+  return {
+    min: range.minExclusive ? Math.floor(range.min) + 1 : Math.ceil(range.min),
+    minExclusive: false,
+    max: range.maxExclusive ? Math.ceil(range.max) - 1 : Math.floor(range.max),
+    maxExclusive: false,
+  };
+}
+
+function overlapsRange(low: number, high: number, lowOpen: boolean, highOpen: boolean, range: NumberRange): boolean {
+  const lower = Math.max(low, range.min);
+  const upper = Math.min(high, range.max);
+  if (lower !== upper) {
+    return lower < upper;
+  }
+  return !(lowOpen && low === lower)
+    && !(highOpen && high === upper)
+    && !(range.minExclusive && range.min === lower)
+    && !(range.maxExclusive && range.max === upper);
+}
+
+function isNumberPrefix(text: string, integer: boolean): boolean {
+  return integer
+    ? /^-?(?:0|[1-9]\d*)?$/.test(text)
+    : /^-?(?:(?:0|[1-9]\d*)(?:\.\d*)?(?:(?<=\d)[eE][+-]?\d*)?)?$/.test(text);
+}
+
+function isCompleteNumber(text: string, integer: boolean): boolean {
+  return integer
+    ? /^-?(?:0|[1-9]\d*)$/.test(text)
+    : /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/.test(text);
+}
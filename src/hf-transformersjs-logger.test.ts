@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from "vitest";
+import { createLogger } from "./hf-transformersjs-logger";
+
+function createSink() {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+describe("createLogger", () => {
+  it("should log nothing without settings", () => {
+    const consoleDebug = vi.spyOn(console, "debug").mockImplementation(() => {});
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const logger = createLogger();
+    logger.debug("debug");
+    logger.error("error");
+
+    expect(consoleDebug).not.toHaveBeenCalled();
+    expect(consoleError).not.toHaveBeenCalled();
+    vi.restoreAllMocks();
+  });
+
+  it("should only log messages at or above the level", () => {
+    const sink = createSink();
+    const logger = createLogger({ level: "warn", logger: sink });
+
+    logger.debug("debug");
+    logger.info("info");
+    logger.warn("warn", { attempt: 1 });
+    logger.error("error");
+
+    expect(sink.debug).not.toHaveBeenCalled();
+    expect(sink.info).not.toHaveBeenCalled();
+    expect(sink.warn).toHaveBeenCalledWith("warn", { attempt: 1 });
+    expect(sink.error).toHaveBeenCalledWith("error", undefined);
+  });
+
+  it("should redact content", () => {
+    expect(createLogger({ redact: true }).content("secret prompt")).toBe("[redacted 13 characters]");
+    expect(createLogger({}).content("secret prompt")).toBe("secret prompt");
+  });
+});
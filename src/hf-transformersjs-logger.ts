@@ -0,0 +1,79 @@
+export type HFTransformersjsLogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Destination of the log messages, e.g. `console` or a pino / winston logger.
+ */
+export interface HFTransformersjsLogger {
+  debug(message: string, data?: Record<string, unknown>): void;
+  info(message: string, data?: Record<string, unknown>): void;
+  warn(message: string, data?: Record<string, unknown>): void;
+  error(message: string, data?: Record<string, unknown>): void;
+}
+
+export type HFTransformersjsLoggerSettings = {
+  /**
+   * Minimum level to log. Defaults to `info`.
+   */
+  level?: HFTransformersjsLogLevel;
+
+  /**
+   * Replace prompts, generated text and embedded values with their length.
+   */
+  redact?: boolean;
+
+  /**
+   * Where to send the messages. Defaults to `console`.
+   */
+  logger?: HFTransformersjsLogger;
+};
+
+/**
+ * Logger used by the models. `content` marks prompt and completion content for redaction.
+ */
+export type HFTransformersjsModelLogger = HFTransformersjsLogger & {
+  content(text: string): string;
+};
+
+const levels: HFTransformersjsLogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+/**
+ * Creates the logger of a provider. Without settings nothing is logged.
+ */
+export function createLogger(settings?: HFTransformersjsLoggerSettings): HFTransformersjsModelLogger {
+  const minLevel = levels.indexOf(settings == null ? 'silent' : settings.level ?? 'info');
+  const destination = settings?.logger ?? createConsoleLogger();
+
+  const log = (level: Exclude<HFTransformersjsLogLevel, 'silent'>) =>
+    (message: string, data?: Record<string, unknown>) => {
+      if (levels.indexOf(level) >= minLevel) {
+        destination[level](message, data);
+      }
+    };
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    content: text => (settings?.redact ? `[redacted ${text.length} characters]` : text),
+  };
+}
+
+function createConsoleLogger(): HFTransformersjsLogger {
+  const prefix = '[hf-transformersjs]';
+  const write = (method: 'debug' | 'info' | 'warn' | 'error') =>
+    (message: string, data?: Record<string, unknown>) => {
+      if (data == null) {
+        console[method](`${prefix} ${message}`);
+      } else {
+        console[method](`${prefix} ${message}`, data);
+      }
+    };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
@@ -0,0 +1,121 @@
+// @ts-nocheck
+import { describe, it, expect } from "vitest";
+import { createJsonSchemaLogitsProcessor, createSamplingLogitsProcessor } from "./hf-transformersjs-logits-processors";
+
+// Character level tokenizer: every token is a single character, the last id is EOS
+const vocab = [..."abcdefghijklmnopqrstuvwxyz0123456789{}[]:,\"' .-_\n"];
+const EOS = vocab.length;
+
+const tokenizer = {
+  all_special_ids: [EOS],
+  encode: (text) => [...text].map(char => vocab.indexOf(char)),
+  decode: (ids) => ids.map(id => (id === EOS ? "</s>" : vocab[id])).join(""),
+};
+
+// Greedily decodes with scores that prefer arbitrary, mostly invalid tokens
+function decode(processor, preferred) {
+  const prompt = [0n, 1n, 2n];
+  const generated = [];
+
+  for (let step = 0; step < 200; step++) {
+    const data = new Float32Array(vocab.length + 1).map((_, id) => ((id * 7 + step * 13) % 17) / 17);
+    const wanted = preferred[step];
+    if (wanted != null) {
+      data[wanted === "EOS" ? EOS : vocab.indexOf(wanted)] = 10;
+    }
+
+    processor([[...prompt, ...generated.map(BigInt)]], { data, dims: [1, data.length] });
+
+    let best = 0;
+    data.forEach((score, id) => {
+      if (score > data[best]) {
+        best = id;
+      }
+    });
+    if (best === EOS) {
+      return generated.map(id => vocab[id]).join("");
+    }
+    generated.push(best);
+  }
+  throw new Error("generation did not stop");
+}
+
+describe("createJsonSchemaLogitsProcessor", () => {
+  it("should only produce JSON that matches the schema", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        done: { type: "boolean" },
+      },
+      required: ["name", "done"],
+      additionalProperties: false,
+    };
+    const processor = createJsonSchemaLogitsProcessor({ tokenizer, schema, eosTokenIds: [EOS] });
+
+    const text = decode(processor, [...'{"name":"hi","extra":1}']);
+    const value = JSON.parse(text);
+
+    expect(value.name).toBe("hi");
+    expect(typeof value.done).toBe("boolean");
+    expect(Object.keys(value).sort()).toEqual(["done", "name"]);
+  });
+
+  it("should follow the preferred tokens while they are valid", () => {
+    const schema = { type: "array", items: { enum: ["a", "b"] } };
+    const processor = createJsonSchemaLogitsProcessor({ tokenizer, schema, eosTokenIds: [EOS] });
+
+    expect(decode(processor, [..."[\"b\",\"a\"]", "EOS"])).toBe("[\"b\",\"a\"]");
+  });
+
+  it("should force the end of sequence once the document is complete", () => {
+    const processor = createJsonSchemaLogitsProcessor({ tokenizer, schema: { const: 1 }, eosTokenIds: [EOS] });
+
+    expect(decode(processor, [..."1}}}"])).toBe("1");
+  });
+});
+
+describe("createSamplingLogitsProcessor", () => {
+  // Samples `steps` tokens from a flat distribution over 50 tokens
+  function sample(options, steps = 20) {
+    const processor = createSamplingLogitsProcessor(options);
+    const generated = [];
+    for (let step = 0; step < steps; step++) {
+      const data = new Float32Array(50).fill(1);
+      processor([[0n, ...generated.map(BigInt)]], { data, dims: [1, data.length] });
+      const kept = [...data.keys()].filter(id => data[id] > -Infinity);
+      expect(kept).toHaveLength(1);
+      generated.push(kept[0]);
+    }
+    return generated;
+  }
+
+  it("should sample reproducibly with a seed", () => {
+    const first = sample({ temperature: 1, seed: 42 });
+
+    expect(sample({ temperature: 1, seed: 42 })).toEqual(first);
+    expect(sample({ temperature: 1, seed: 7 })).not.toEqual(first);
+  });
+
+  it("should only sample from the top-k tokens", () => {
+    const processor = createSamplingLogitsProcessor({ temperature: 1, topK: 2, seed: 1 });
+
+    for (let step = 0; step < 20; step++) {
+      const data = new Float32Array([0, 5, 1, 4, 2]);
+      processor([[0n]], { data, dims: [1, data.length] });
+      const [kept] = [...data.keys()].filter(id => data[id] > -Infinity);
+      expect([1, 3]).toContain(kept);
+    }
+  });
+
+  it("should penalize generated tokens without sampling at temperature 0", () => {
+    const processor = createSamplingLogitsProcessor({ temperature: 0, presencePenalty: 1, frequencyPenalty: 0.5 });
+    processor([[2n]], { data: new Float32Array(3), dims: [1, 3] });
+
+    const data = new Float32Array([3, 3, 3]);
+    processor([[2n, 0n, 0n, 1n]], { data, dims: [1, data.length] });
+
+    // the prompt (token 2) is not penalized:
+    expect([...data]).toEqual([1, 1.5, 3]);
+  });
+});
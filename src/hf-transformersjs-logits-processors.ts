@@ -0,0 +1,324 @@
+import { PreTrainedTokenizer, Tensor, TextGenerationPipeline } from "@huggingface/transformers";
+import { JSONSchema7 } from '@ai-sdk/provider';
+import {
+  advanceJsonGrammarState,
+  createJsonGrammarState,
+  isJsonGrammarStateComplete,
+  JsonGrammarState,
+} from './hf-transformersjs-json-grammar';
+import { HFTransformersjsObjectGeneration } from './hf-transformersjs-object-generation';
+
+/**
+ * A logits processor as called by transformers.js during decoding: it receives the token ids of
+ * every sequence in the batch (prompt included) and the next-token logits, and modifies the
+ * logits in place.
+ */
+export type HFTransformersjsLogitsProcessor = (inputIds: bigint[][], logits: Tensor) => Tensor;
+
+/**
+ * Number of highest scoring tokens that are checked against the grammar before
+ * falling back to a scan of the whole vocabulary.
+ */
+const GRAMMAR_CANDIDATES = 256;
+
+/**
+ * Masks every token that would make the output invalid JSON for the given schema, and forces an
+ * end-of-sequence token once the document is complete.
+ */
+export function createJsonSchemaLogitsProcessor({
+  tokenizer,
+  schema,
+  eosTokenIds,
+}: {
+  tokenizer: PreTrainedTokenizer;
+  schema: JSONSchema7 | undefined;
+  eosTokenIds: number[];
+}): HFTransformersjsLogitsProcessor {
+  const decodeToken = getTokenDecoder(tokenizer);
+  const specialTokenIds = new Set<number>(tokenizer.all_special_ids ?? []);
+  const rows: Array<{ state: JsonGrammarState | undefined; consumed: number }> = [];
+  let promptLength: number | undefined;
+
+  const isAllowed = (state: JsonGrammarState, tokenId: number) => {
+    if (specialTokenIds.has(tokenId)) {
+      return false;
+    }
+    const text = decodeToken(tokenId);
+    return text !== '' && advanceJsonGrammarState(state, text) != null;
+  };
+
+  return (inputIds, logits) => {
+    promptLength ??= inputIds[0].length;
+
+    for (let row = 0; row < inputIds.length; row++) {
+      const rowState = rows[row] ??= { state: createJsonGrammarState(schema), consumed: 0 };
+
+      // advance the grammar with the tokens sampled since the last call:
+      const generated = inputIds[row].length - promptLength;
+      for (; rowState.consumed < generated; rowState.consumed++) {
+        const tokenId = Number(inputIds[row][promptLength + rowState.consumed]);
+        rowState.state = rowState.state && advanceJsonGrammarState(rowState.state, decodeToken(tokenId));
+      }
+
+      const state = rowState.state;
+      if (state == null) {
+        // the output left the grammar (e.g. through a decoding mismatch); stop constraining it
+        continue;
+      }
+
+      const scores = getRowScores(logits, row);
+      const allowed: number[] = [];
+
+      if (isJsonGrammarStateComplete(state)) {
+        allowed.push(...eosTokenIds);
+        // a complete root number may still be extended with more digits:
+        for (const tokenId of getTopTokenIds(scores, GRAMMAR_CANDIDATES)) {
+          if (decodeToken(tokenId).trim() !== '' && isAllowed(state, tokenId)) {
+            allowed.push(tokenId);
+          }
+        }
+      } else {
+        for (const tokenId of getTopTokenIds(scores, GRAMMAR_CANDIDATES)) {
+          if (isAllowed(state, tokenId)) {
+            allowed.push(tokenId);
+          }
+        }
+        if (allowed.length === 0) {
+          for (let tokenId = 0; tokenId < scores.length; tokenId++) {
+            if (isAllowed(state, tokenId)) {
+              allowed.push(tokenId);
+            }
+          }
+        }
+      }
+
+      if (allowed.length > 0) {
+        maskScores(scores, allowed);
+      }
+    }
+
+    return logits;
+  };
+}
+
+/**
+ * Applies presence and frequency penalties over the generated tokens and, when `temperature` is
+ * positive, samples the next token with temperature, top-k and top-p and masks every other token.
+ * Sampling draws from a seeded generator when `seed` is set, so that outputs are reproducible.
+ *
+ * It must run after every processor that restricts the allowed tokens.
+ */
+export function createSamplingLogitsProcessor({
+  temperature,
+  topP,
+  topK,
+  presencePenalty,
+  frequencyPenalty,
+  seed,
+}: {
+  temperature: number;
+  topP?: number;
+  topK?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  seed?: number;
+}): HFTransformersjsLogitsProcessor {
+  const random = seed != null ? createSeededRandom(seed) : Math.random;
+  let promptLength: number | undefined;
+
+  return (inputIds, logits) => {
+    promptLength ??= inputIds[0].length;
+
+    for (let row = 0; row < inputIds.length; row++) {
+      const scores = getRowScores(logits, row);
+
+      if (presencePenalty || frequencyPenalty) {
+        const counts = new Map<number, number>();
+        for (const tokenId of inputIds[row].slice(promptLength)) {
+          counts.set(Number(tokenId), (counts.get(Number(tokenId)) ?? 0) + 1);
+        }
+        counts.forEach((count, tokenId) => {
+          scores[tokenId] -= (presencePenalty ?? 0) + (frequencyPenalty ?? 0) * count;
+        });
+      }
+
+      if (temperature > 0) {
+        maskScores(scores, [sampleTokenId(scores, { temperature, topP, topK, random })]);
+      }
+    }
+
+    return logits;
+  };
+}
+
+// The next-token scores of a sequence in the batch, as a view that writes through to the logits
+function getRowScores(logits: Tensor, row: number): Float32Array {
+  const vocabSize = logits.dims[logits.dims.length - 1];
+  return (logits.data as Float32Array).subarray(row * vocabSize, (row + 1) * vocabSize);
+}
+
+/**
+ * Logits processors that constrain decoding to the requested JSON output, if any.
+ */
+export function getObjectGenerationLogitsProcessors(
+  pn: TextGenerationPipeline,
+  objectGeneration: HFTransformersjsObjectGeneration | undefined,
+): HFTransformersjsLogitsProcessor[] {
+  if (objectGeneration == null) {
+    return [];
+  }
+  return [createJsonSchemaLogitsProcessor({
+    tokenizer: pn.tokenizer,
+    schema: objectGeneration.schema,
+    eosTokenIds: getEosTokenIds(pn),
+  })];
+}
+
+/**
+ * End-of-sequence token ids of the pipeline's model.
+ */
+export function getEosTokenIds(pn: TextGenerationPipeline): number[] {
+  const model = pn.model as unknown as {
+    generation_config?: { eos_token_id?: number | number[] | null };
+    config?: { eos_token_id?: number | number[] | null };
+  } | undefined;
+  const eosTokenId = model?.generation_config?.eos_token_id
+    ?? model?.config?.eos_token_id
+    ?? pn.tokenizer?.eos_token_id;
+
+  if (eosTokenId == null) {
+    return [];
+  }
+  return Array.isArray(eosTokenId) ? eosTokenId : [eosTokenId];
+}
+
+const tokenDecoders = new WeakMap<PreTrainedTokenizer, (tokenId: number) => string>();
+
+/**
+ * Returns a cached decoder for the text that a single token adds to a sequence.
+ *
+ * Tokens are decoded after an anchor token, because decoders such as SentencePiece's
+ * Metaspace strip the leading space of the first token in a sequence.
+ */
+function getTokenDecoder(tokenizer: PreTrainedTokenizer): (tokenId: number) => string {
+  let decoder = tokenDecoders.get(tokenizer);
+  if (decoder == null) {
+    const anchorIds = tokenizer.encode('a', { add_special_tokens: false });
+    const anchorText = tokenizer.decode(anchorIds, { skip_special_tokens: false });
+    const cache = new Map<number, string>();
+
+    decoder = (tokenId: number) => {
+      let text = cache.get(tokenId);
+      if (text === undefined) {
+        text = tokenizer.decode([...anchorIds, tokenId], { skip_special_tokens: false }).slice(anchorText.length);
+        cache.set(tokenId, text);
+      }
+      return text;
+    };
+    tokenDecoders.set(tokenizer, decoder);
+  }
+  return decoder;
+}
+
+/**
+ * Ids of the `k` highest scores, best first.
+ */
+function getTopTokenIds(scores: Float32Array, k: number): number[] {
+  const ids: number[] = [];
+  for (let tokenId = 0; tokenId < scores.length; tokenId++) {
+    const score = scores[tokenId];
+    if (ids.length === k && score <= scores[ids[k - 1]]) {
+      continue;
+    }
+
+    let index = ids.length === k ? k - 1 : ids.length;
+    while (index > 0 && scores[ids[index - 1]] < score) {
+      ids[index] = ids[index - 1];
+      index--;
+    }
+    ids[index] = tokenId;
+  }
+  return ids;
+}
+
+function sampleTokenId(
+  scores: Float32Array,
+  { temperature, topP, topK, random }: {
+    temperature: number;
+    topP?: number;
+    topK?: number;
+    random: () => number;
+  },
+): number {
+  let tokenIds: number[];
+  if (topK != null && topK > 0) {
+    tokenIds = getTopTokenIds(scores, topK);
+  } else {
+    tokenIds = [];
+    scores.forEach((score, tokenId) => {
+      if (score > -Infinity) {
+        tokenIds.push(tokenId);
+      }
+    });
+  }
+  if (tokenIds.length === 0) {
+    return 0;
+  }
+
+  let maxScore = -Infinity;
+  for (const tokenId of tokenIds) {
+    maxScore = Math.max(maxScore, scores[tokenId]);
+  }
+  if (maxScore === -Infinity) {
+    return tokenIds[0];
+  }
+  let weights = tokenIds.map(tokenId => Math.exp((scores[tokenId] - maxScore) / temperature));
+
+  if (topP != null && topP < 1) {
+    // keep the smallest set of most likely tokens whose probability reaches topP:
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    const order = tokenIds.map((_, index) => index).sort((a, b) => weights[b] - weights[a]);
+    const kept: number[] = [];
+    let cumulative = 0;
+    for (const index of order) {
+      kept.push(index);
+      cumulative += weights[index] / total;
+      if (cumulative >= topP) {
+        break;
+      }
+    }
+    tokenIds = kept.map(index => tokenIds[index]);
+    weights = kept.map(index => weights[index]);
+  }
+
+  let threshold = random() * weights.reduce((sum, weight) => sum + weight, 0);
+  for (let index = 0; index < tokenIds.length; index++) {
+    threshold -= weights[index];
+    if (threshold <= 0) {
+      return tokenIds[index];
+    }
+  }
+  return tokenIds[tokenIds.length - 1];
+}
+
+/**
+ * mulberry32: a small, fast generator that is good enough for sampling.
+ */
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function maskScores(scores: Float32Array, allowed: number[]) {
+  const kept = allowed.map(tokenId => scores[tokenId]);
+  scores.fill(-Infinity);
+  allowed.forEach((tokenId, index) => {
+    scores[tokenId] = kept[index];
+  });
+}
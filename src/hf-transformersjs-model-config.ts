@@ -0,0 +1,50 @@
+import { HFTransformersjsPipelineRegistry } from './hf-transformersjs-pipeline-registry';
+import { HFTransformersjsProgressListener } from './hf-transformersjs-progress';
+import { HFTransformersjsModelLogger } from './hf-transformersjs-logger';
+import { HFTransformersjsRemoteConfig } from './hf-transformersjs-remote';
+
+/**
+ * Configuration that the provider passes to every model it creates.
+ */
+export type HFTransformersjsModelConfig = {
+  provider: string;
+
+  /**
+   * Registry to load pipelines through. Models get their own registry when none is passed.
+   */
+  pipelineRegistry?: HFTransformersjsPipelineRegistry;
+
+  /**
+   * Receives the loading progress of every model of the provider.
+   */
+  onProgress?: HFTransformersjsProgressListener;
+
+  /**
+   * Logger of the provider. Models log nothing when none is passed.
+   */
+  logger?: HFTransformersjsModelLogger;
+
+  /**
+   * Inference server to send the calls to instead of running the model locally.
+   */
+  remote?: HFTransformersjsRemoteConfig;
+};
+
+export type HFTransformersjsWarmupOptions = {
+  /**
+   * Also run a minimal inference, so that the first call does not pay for initializing the
+   * inference session either.
+   */
+  runInference?: boolean;
+
+  /**
+   * Receives the progress of the model download and load.
+   */
+  onProgress?: HFTransformersjsProgressListener;
+
+  /**
+   * Stops waiting for the load. The load itself is not cancelled and its pipeline stays loaded
+   * until the model is unloaded or evicted.
+   */
+  abortSignal?: AbortSignal;
+};
@@ -0,0 +1,77 @@
+import {
+  JSONSchema7,
+  LanguageModelV1CallOptions,
+  LanguageModelV1FunctionTool,
+  LanguageModelV1FunctionToolCall,
+} from '@ai-sdk/provider';
+import { generateId } from '@ai-sdk/provider-utils';
+
+/**
+ * Constrained JSON output requested by `object-json` / `object-tool` mode or a JSON response format.
+ */
+export interface HFTransformersjsObjectGeneration {
+  /**
+   * Schema the output must match. When undefined, any JSON value is allowed.
+   */
+  schema: JSONSchema7 | undefined;
+
+  /**
+   * Tool whose arguments are generated in `object-tool` mode.
+   */
+  tool?: LanguageModelV1FunctionTool;
+
+  /**
+   * Instruction that describes the expected output to the model. The AI SDK already adds one
+   * to the prompt in `object-json` mode, so it is only set in `object-tool` mode.
+   */
+  instruction?: string;
+}
+
+export function prepareObjectGeneration(
+  options: LanguageModelV1CallOptions,
+): HFTransformersjsObjectGeneration | undefined {
+  const mode = options.mode;
+
+  switch (mode?.type) {
+    case 'object-json': {
+      return { schema: mode.schema ?? getResponseFormatSchema(options) };
+    }
+    case 'object-tool': {
+      return {
+        schema: mode.tool.parameters,
+        tool: mode.tool,
+        instruction: [
+          mode.tool.description,
+          'Respond with a JSON object that matches this JSON schema:',
+          JSON.stringify(mode.tool.parameters),
+        ].filter(Boolean).join('\n'),
+      };
+    }
+  }
+
+  if (options.responseFormat?.type === 'json') {
+    return { schema: options.responseFormat.schema };
+  }
+
+  return undefined;
+}
+
+/**
+ * Wraps the generated JSON into the forced tool call of `object-tool` mode.
+ */
+export function createObjectToolCall(
+  tool: LanguageModelV1FunctionTool,
+  args: string,
+  toolCallId: string = generateId(),
+): LanguageModelV1FunctionToolCall {
+  return {
+    toolCallType: 'function',
+    toolCallId,
+    toolName: tool.name,
+    args,
+  };
+}
+
+function getResponseFormatSchema(options: LanguageModelV1CallOptions): JSONSchema7 | undefined {
+  return options.responseFormat?.type === 'json' ? options.responseFormat.schema : undefined;
+}
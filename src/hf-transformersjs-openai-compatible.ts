@@ -0,0 +1,290 @@
+import { LanguageModelV1CallOptions, LanguageModelV1FinishReason, LanguageModelV1FunctionToolCall, LanguageModelV1StreamPart } from '@ai-sdk/provider';
+import { generateId, validateTypes } from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+import {
+  convertFromOpenAICompatibleChatMessages,
+  OpenAICompatibleChatMessage,
+} from './convert-from-openai-compatible-chat-messages';
+import { HFTransformersjsGenerationOptions } from './hf-transformersjs-generation-options';
+
+/**
+ * OpenAI request parameters, passed as `providerMetadata.openaiCompatible` of a call. They fill in
+ * the call settings that are not set, and `messages` replace the prompt. `null` counts as not set.
+ */
+export type HFTransformersjsOpenAICompatibleParameters = {
+  messages?: OpenAICompatibleChatMessage[] | null;
+  max_tokens?: number | null;
+  max_completion_tokens?: number | null;
+  temperature?: number | null;
+  top_p?: number | null;
+  frequency_penalty?: number | null;
+  presence_penalty?: number | null;
+  seed?: number | null;
+  stop?: string | string[] | null;
+};
+
+const openAICompatibleParametersSchema = z.object({
+  max_tokens: z.number().int().positive().nullish(),
+  max_completion_tokens: z.number().int().positive().nullish(),
+  temperature: z.number().min(0).nullish(),
+  top_p: z.number().min(0).max(1).nullish(),
+  frequency_penalty: z.number().nullish(),
+  presence_penalty: z.number().nullish(),
+  seed: z.number().int().nullish(),
+  stop: z.union([z.string(), z.array(z.string())]).nullish(),
+});
+
+const openAICompatibleMessagesSchema = z.object({
+  messages: z.array(z.custom<OpenAICompatibleChatMessage>(
+    value => typeof value === 'object' && value != null && 'role' in value,
+  )).nullish(),
+});
+
+/**
+ * Validates the OpenAI request parameters of a request body and drops its other fields.
+ */
+export function parseOpenAICompatibleParameters(
+  value: unknown,
+): Omit<HFTransformersjsOpenAICompatibleParameters, 'messages'> {
+  return validateTypes({ value, schema: openAICompatibleParametersSchema });
+}
+
+/**
+ * Fills the call settings that a call leaves unset with its OpenAI request parameters, and
+ * replaces the prompt with the OpenAI messages if there are any.
+ */
+export function applyOpenAICompatibleParameters(options: LanguageModelV1CallOptions): LanguageModelV1CallOptions {
+  const value = options.providerMetadata?.openaiCompatible;
+  if (value == null) {
+    return options;
+  }
+
+  const parameters = parseOpenAICompatibleParameters(value);
+  const { messages } = validateTypes({ value, schema: openAICompatibleMessagesSchema });
+  const stop = typeof parameters.stop === 'string' ? [parameters.stop] : parameters.stop;
+  return {
+    ...options,
+    prompt: messages != null ? convertFromOpenAICompatibleChatMessages(messages) : options.prompt,
+    maxTokens: options.maxTokens ?? parameters.max_completion_tokens ?? parameters.max_tokens ?? undefined,
+    temperature: options.temperature ?? parameters.temperature ?? undefined,
+    topP: options.topP ?? parameters.top_p ?? undefined,
+    frequencyPenalty: options.frequencyPenalty ?? parameters.frequency_penalty ?? undefined,
+    presencePenalty: options.presencePenalty ?? parameters.presence_penalty ?? undefined,
+    seed: options.seed ?? parameters.seed ?? undefined,
+    stopSequences: options.stopSequences ?? stop ?? undefined,
+  };
+}
+
+/**
+ * The settings of a call as OpenAI request parameters. The token limit and temperature are taken
+ * from the generation config, which has their defaults.
+ */
+export function getOpenAICompatibleParameters(
+  options: LanguageModelV1CallOptions,
+  generationOptions: HFTransformersjsGenerationOptions,
+): Record<string, unknown> {
+  return {
+    max_tokens: generationOptions.max_new_tokens,
+    temperature: generationOptions.temperature,
+    top_p: options.topP,
+    top_k: options.topK,
+    frequency_penalty: options.frequencyPenalty,
+    presence_penalty: options.presencePenalty,
+    seed: options.seed,
+    stop: options.stopSequences,
+  };
+}
+
+/**
+ * Gives the response of a stream an OpenAI id, e.g. `chatcmpl-...`.
+ */
+export function withOpenAICompatibleResponseId(
+  stream: ReadableStream<LanguageModelV1StreamPart>,
+  prefix: string,
+): ReadableStream<LanguageModelV1StreamPart> {
+  return stream.pipeThrough(new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+    transform(part, controller) {
+      controller.enqueue(part.type === 'response-metadata' ? { ...part, id: `${prefix}-${generateId()}` } : part);
+    },
+  }));
+}
+
+type OpenAICompatibleUsage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+};
+
+function getOpenAICompatibleUsage(usage: { promptTokens: number; completionTokens: number }): OpenAICompatibleUsage {
+  return {
+    prompt_tokens: usage.promptTokens,
+    completion_tokens: usage.completionTokens,
+    total_tokens: usage.promptTokens + usage.completionTokens,
+  };
+}
+
+/**
+ * A `chat.completion` response body as the OpenAI chat completions API returns it.
+ */
+export function createOpenAICompatibleChatCompletion({
+  id,
+  created,
+  modelId,
+  text,
+  toolCalls,
+  finishReason,
+  usage,
+}: {
+  id: string;
+  created: Date;
+  modelId: string;
+  text: string | undefined;
+  toolCalls: LanguageModelV1FunctionToolCall[];
+  finishReason: string | null;
+  usage: { promptTokens: number; completionTokens: number };
+}) {
+  return {
+    id,
+    object: 'chat.completion' as const,
+    created: Math.floor(created.getTime() / 1000),
+    model: modelId,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: 'assistant' as const,
+          content: text ?? null,
+          ...(toolCalls.length > 0
+            ? {
+                tool_calls: toolCalls.map(toolCall => ({
+                  id: toolCall.toolCallId,
+                  type: 'function' as const,
+                  function: { name: toolCall.toolName, arguments: toolCall.args },
+                })),
+              }
+            : {}),
+        },
+        finish_reason: finishReason,
+        logprobs: null,
+      },
+    ],
+    usage: getOpenAICompatibleUsage(usage),
+  };
+}
+
+/**
+ * A `text_completion` response body as the OpenAI completions API returns it.
+ */
+export function createOpenAICompatibleTextCompletion({
+  id,
+  created,
+  modelId,
+  text,
+  finishReason,
+  usage,
+}: {
+  id: string;
+  created: Date;
+  modelId: string;
+  text: string;
+  finishReason: string | null;
+  usage: { promptTokens: number; completionTokens: number };
+}) {
+  return {
+    id,
+    object: 'text_completion' as const,
+    created: Math.floor(created.getTime() / 1000),
+    model: modelId,
+    choices: [
+      {
+        index: 0,
+        text,
+        finish_reason: finishReason,
+        logprobs: null,
+      },
+    ],
+    usage: getOpenAICompatibleUsage(usage),
+  };
+}
+
+/**
+ * Maps an AI SDK finish reason back to the one OpenAI reports.
+ */
+export function mapToOpenAICompatibleFinishReason(finishReason: LanguageModelV1FinishReason): string | null {
+  switch (finishReason) {
+    case 'stop':
+    case 'length':
+      return finishReason;
+    case 'content-filter':
+      return 'content_filter';
+    case 'tool-calls':
+      return 'tool_calls';
+    default:
+      return null;
+  }
+}
+
+/**
+ * A `chat.completion.chunk` as the OpenAI chat completions API streams it.
+ */
+export function createOpenAICompatibleChatCompletionChunk({
+  id,
+  created,
+  modelId,
+  delta,
+  finishReason = null,
+  usage,
+}: {
+  id: string;
+  created: Date;
+  modelId: string;
+  delta: {
+    role?: 'assistant';
+    content?: string;
+    tool_calls?: Array<{
+      index: number;
+      id?: string;
+      type?: 'function';
+      function: { name?: string; arguments: string };
+    }>;
+  };
+  finishReason?: string | null;
+  usage?: { promptTokens: number; completionTokens: number };
+}) {
+  return {
+    id,
+    object: 'chat.completion.chunk' as const,
+    created: Math.floor(created.getTime() / 1000),
+    model: modelId,
+    choices: usage == null ? [{ index: 0, delta, finish_reason: finishReason, logprobs: null }] : [],
+    ...(usage != null ? { usage: getOpenAICompatibleUsage(usage) } : {}),
+  };
+}
+
+/**
+ * A `text_completion` chunk as the OpenAI completions API streams it.
+ */
+export function createOpenAICompatibleTextCompletionChunk({
+  id,
+  created,
+  modelId,
+  text,
+  finishReason = null,
+  usage,
+}: {
+  id: string;
+  created: Date;
+  modelId: string;
+  text: string;
+  finishReason?: string | null;
+  usage?: { promptTokens: number; completionTokens: number };
+}) {
+  return {
+    id,
+    object: 'text_completion' as const,
+    created: Math.floor(created.getTime() / 1000),
+    model: modelId,
+    choices: usage == null ? [{ index: 0, text, finish_reason: finishReason, logprobs: null }] : [],
+    ...(usage != null ? { usage: getOpenAICompatibleUsage(usage) } : {}),
+  };
+}
@@ -0,0 +1,114 @@
+// @ts-nocheck
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createPipelineRegistry } from "./hf-transformersjs-pipeline-registry";
+import { pipeline } from "@huggingface/transformers";
+
+vi.mock("@huggingface/transformers", () => {
+  return {
+    pipeline: vi.fn(),
+  };
+});
+
+describe("createPipelineRegistry", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    // Every load reports a 100 byte model file and creates a new pipeline that records its disposal
+    (pipeline as any).mockImplementation(async (task, modelId, options) => {
+      options.progress_callback({ status: "progress", file: "model.onnx", loaded: 100, total: 100 });
+      return { task, modelId, options, dispose: vi.fn().mockResolvedValue(undefined) };
+    });
+  });
+
+  it("should share pipelines and load them only once", async () => {
+    const registry = createPipelineRegistry();
+    const request = { task: "text-generation", modelId: "model-a", options: { revision: "main" } };
+
+    const [first, second] = await Promise.all([registry.acquire(request), registry.acquire(request)]);
+    const third = await registry.acquire({ ...request, options: { revision: "main", dtype: "q4" } });
+    const fourth = await registry.acquire({ ...request, options: { revision: "main", model_file_name: "decoder" } });
+    const fifth = await registry.acquire({
+      ...request,
+      options: { revision: "main", session_options: { graphOptimizationLevel: "all" } },
+    });
+
+    expect(first.pipeline).toBe(second.pipeline);
+    expect(new Set([first.pipeline, third.pipeline, fourth.pipeline, fifth.pipeline]).size).toBe(4);
+    expect(pipeline).toHaveBeenCalledTimes(4);
+  });
+
+  it("should dispose unloaded pipelines once they are released", async () => {
+    const registry = createPipelineRegistry();
+    const { pipeline: loaded, release } = await registry.acquire({ task: "text-generation", modelId: "model-a" });
+
+    await registry.unload("model-a");
+    expect(loaded.dispose).not.toHaveBeenCalled();
+
+    release();
+    expect(loaded.dispose).toHaveBeenCalledTimes(1);
+
+    // the next call loads the model again:
+    const { pipeline: reloaded } = await registry.acquire({ task: "text-generation", modelId: "model-a" });
+    expect(reloaded).not.toBe(loaded);
+  });
+
+  it("should evict the least recently used idle pipelines beyond the memory budget", async () => {
+    const registry = createPipelineRegistry({ maxLoadedBytes: 200 });
+    const acquire = modelId => registry.acquire({ task: "feature-extraction", modelId });
+
+    const a = await acquire("model-a");
+    const b = await acquire("model-b");
+    a.release();
+    b.release();
+    // model-a becomes the most recently used one:
+    (await acquire("model-a")).release();
+
+    const c = await acquire("model-c");
+    expect(b.pipeline.dispose).toHaveBeenCalledTimes(1);
+    expect(a.pipeline.dispose).not.toHaveBeenCalled();
+
+    // pipelines in use are never evicted:
+    const d = await acquire("model-d");
+    expect(c.pipeline.dispose).not.toHaveBeenCalled();
+    expect(d.pipeline.dispose).not.toHaveBeenCalled();
+    expect(a.pipeline.dispose).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep the most recently used pipeline even when it exceeds the budget", async () => {
+    const registry = createPipelineRegistry({ maxLoadedBytes: 150 });
+    (pipeline as any).mockImplementationOnce(async (task, modelId, options) => {
+      options.progress_callback({ status: "progress", file: "model.onnx", loaded: 0, total: 400 });
+      options.progress_callback({ status: "progress", file: "model.onnx_data", loaded: 0, total: 600 });
+      return { dispose: vi.fn().mockResolvedValue(undefined) };
+    });
+
+    const large = await registry.acquire({ task: "text-generation", modelId: "large-model" });
+    large.release();
+    expect(large.pipeline.dispose).not.toHaveBeenCalled();
+
+    (await registry.acquire({ task: "text-generation", modelId: "small-model" })).release();
+    expect(large.pipeline.dispose).toHaveBeenCalledTimes(1);
+  });
+
+  it("should dispose every pipeline", async () => {
+    const registry = createPipelineRegistry();
+    const a = await registry.acquire({ task: "text-generation", modelId: "model-a" });
+    const b = await registry.acquire({ task: "feature-extraction", modelId: "model-b" });
+    a.release();
+    b.release();
+
+    await registry.dispose();
+
+    expect(a.pipeline.dispose).toHaveBeenCalledTimes(1);
+    expect(b.pipeline.dispose).toHaveBeenCalledTimes(1);
+  });
+
+  it("should load again after a failed load", async () => {
+    const registry = createPipelineRegistry();
+    (pipeline as any).mockRejectedValueOnce(new Error("network error"));
+
+    await expect(registry.acquire({ task: "text-generation", modelId: "model-a" })).rejects.toThrow("network error");
+    await expect(registry.acquire({ task: "text-generation", modelId: "model-a" })).resolves.toBeDefined();
+    expect(pipeline).toHaveBeenCalledTimes(2);
+  });
+});
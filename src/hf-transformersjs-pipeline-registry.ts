@@ -0,0 +1,232 @@
+import { Disposable, pipeline } from '@huggingface/transformers';
+import { raceAbortSignal } from './hf-transformersjs-abort';
+import { HFTransformersjsHubSettings, withHubSettings } from './hf-transformersjs-hub';
+
+type PipelineTask = Parameters<typeof pipeline>[0];
+type PipelineOptions = NonNullable<Parameters<typeof pipeline>[2]>;
+
+/**
+ * Progress of a pipeline load as reported by transformers.js.
+ */
+export type HFTransformersjsLoadProgress = Parameters<NonNullable<PipelineOptions['progress_callback']>>[0];
+
+/**
+ * Shares loaded pipelines between model instances, so that the same weights are only loaded once.
+ *
+ * Pipelines are keyed by task, model id, dtype, device, revision, subfolder, model file name and
+ * session options. A pipeline is in use from `acquire` until its `release`; only idle pipelines are
+ * disposed, the others are disposed once the last user releases them.
+ */
+export interface HFTransformersjsPipelineRegistry {
+  /**
+   * Returns the pipeline, loading it unless it is loaded or being loaded already. Call `release`
+   * when done with it. Aborting stops waiting for the load, but does not cancel it: the download
+   * and session creation keep going, and the pipeline stays loaded for later calls.
+   * `onProgress` receives the progress of the load while the caller waits for it.
+   */
+  acquire<PIPELINE>(request: {
+    task: PipelineTask;
+    modelId: string;
+    options?: PipelineOptions;
+    abortSignal?: AbortSignal;
+    onProgress?: (progress: HFTransformersjsLoadProgress) => void;
+  }): Promise<{ pipeline: PIPELINE; release: () => void }>;
+
+  /**
+   * Disposes every pipeline of the model. The next call loads it again.
+   */
+  unload(modelId: string): Promise<void>;
+
+  /**
+   * Disposes all pipelines.
+   */
+  dispose(): Promise<void>;
+}
+
+interface PipelineEntry {
+  modelId: string;
+  load: Promise<Disposable>;
+  pipeline?: Disposable;
+  // size of every file of the load, as reported by its progress:
+  fileSizes: Map<string, number>;
+  progressListeners: Set<(progress: HFTransformersjsLoadProgress) => void>;
+  users: number;
+  unloaded: boolean;
+}
+
+export function createPipelineRegistry({
+  maxLoadedBytes = Infinity,
+  hub,
+}: {
+  /**
+   * Memory budget for the loaded pipelines, in bytes. A pipeline counts with the size of the files
+   * it loaded, which estimates the memory its weights take. When the loaded pipelines exceed the
+   * budget, the least recently used idle ones are disposed; the most recently used one is kept,
+   * even if it exceeds the budget by itself.
+   */
+  maxLoadedBytes?: number;
+
+  /**
+   * Where the pipelines are downloaded from, applied to every load.
+   */
+  hub?: HFTransformersjsHubSettings;
+} = {}): HFTransformersjsPipelineRegistry {
+  // in least recently used order:
+  const entries = new Map<string, PipelineEntry>();
+
+  return {
+    async acquire<PIPELINE>({
+      task,
+      modelId,
+      options = {},
+      abortSignal,
+      onProgress,
+    }: Parameters<HFTransformersjsPipelineRegistry['acquire']>[0]) {
+      const key = JSON.stringify([
+        task,
+        modelId,
+        options.dtype,
+        options.device,
+        options.revision,
+        options.subfolder,
+        options.model_file_name,
+        options.session_options,
+      ]);
+
+      let entry = entries.get(key);
+      if (entry == null) {
+        entry = createEntry(key, task, modelId, options);
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+
+      // waiting callers count as users, so that the pipeline is not disposed before they get it
+      const acquired = entry;
+      acquired.users++;
+      if (onProgress != null) {
+        acquired.progressListeners.add(onProgress);
+      }
+      try {
+        const loaded = await raceAbortSignal(acquired.load, abortSignal).finally(() => {
+          if (onProgress != null) {
+            acquired.progressListeners.delete(onProgress);
+          }
+        });
+        let released = false;
+        return {
+          pipeline: loaded as PIPELINE,
+          release: () => {
+            if (!released) {
+              released = true;
+              release(acquired);
+            }
+          },
+        };
+      } catch (error) {
+        release(acquired);
+        throw error;
+      }
+    },
+
+    async unload(modelId) {
+      const unloaded = [...entries].filter(([, entry]) => entry.modelId === modelId);
+      await Promise.all(unloaded.map(([key, entry]) => remove(key, entry)));
+    },
+
+    async dispose() {
+      await Promise.all([...entries].map(([key, entry]) => remove(key, entry)));
+    },
+  };
+
+  function createEntry(key: string, task: PipelineTask, modelId: string, options: PipelineOptions): PipelineEntry {
+    const entry: PipelineEntry = {
+      modelId,
+      fileSizes: new Map(),
+      progressListeners: new Set(),
+      users: 0,
+      unloaded: false,
+      // started on the next microtask, once the caller that creates the entry has subscribed to it
+      load: Promise.resolve().then(() => withHubSettings(hub, hubOptions => pipeline(task, modelId, {
+        ...hubOptions,
+        ...options,
+        progress_callback: progress => {
+          if (progress.status === 'progress') {
+            entry.fileSizes.set(progress.file, progress.total);
+          }
+          options.progress_callback?.(progress);
+          for (const listener of entry.progressListeners) {
+            listener(progress);
+          }
+        },
+      }))).then(
+        loaded => {
+          entry.pipeline = loaded;
+          if (entry.unloaded && entry.users === 0) {
+            disposePipeline(entry).catch(() => {});
+          } else {
+            evictIdlePipelines();
+          }
+          return loaded;
+        },
+        error => {
+          if (entries.get(key) === entry) {
+            entries.delete(key);
+          }
+          throw error;
+        },
+      ),
+    };
+    // callers handle load errors, this only avoids an unhandled rejection when none is waiting:
+    entry.load.catch(() => {});
+    return entry;
+  }
+
+  function release(entry: PipelineEntry) {
+    entry.users--;
+    if (entry.users > 0) {
+      return;
+    }
+    if (entry.unloaded) {
+      disposePipeline(entry).catch(() => {});
+    } else {
+      evictIdlePipelines();
+    }
+  }
+
+  function remove(key: string, entry: PipelineEntry): Promise<void> {
+    if (entries.get(key) === entry) {
+      entries.delete(key);
+    }
+    entry.unloaded = true;
+    return entry.users === 0 ? disposePipeline(entry) : Promise.resolve();
+  }
+
+  function evictIdlePipelines() {
+    const loaded = [...entries].filter(([, entry]) => entry.pipeline != null);
+    let loadedBytes = loaded.reduce((sum, [, entry]) => sum + getSize(entry), 0);
+    // the last entry is the most recently used one:
+    for (const [key, entry] of loaded.slice(0, -1)) {
+      if (loadedBytes <= maxLoadedBytes) {
+        break;
+      }
+      if (entry.users === 0) {
+        loadedBytes -= getSize(entry);
+        remove(key, entry).catch(() => {});
+      }
+    }
+  }
+
+  async function disposePipeline(entry: PipelineEntry): Promise<void> {
+    const loaded = entry.pipeline;
+    entry.pipeline = undefined;
+    await loaded?.dispose();
+  }
+}
+
+function getSize(entry: PipelineEntry): number {
+  let size = 0;
+  for (const fileSize of entry.fileSizes.values()) {
+    size += fileSize;
+  }
+  return size;
+}
@@ -0,0 +1,87 @@
+import {
+  JSONSchema7,
+  LanguageModelV1,
+  LanguageModelV1CallWarning,
+} from '@ai-sdk/provider';
+
+/**
+ * Tool definition in the JSON Schema shape that Hugging Face chat templates
+ * accept through `apply_chat_template({ tools })`.
+ */
+export interface HFTransformersjsChatTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string | undefined;
+    parameters: JSONSchema7;
+  };
+}
+
+export function prepareTools({
+  mode,
+}: {
+  mode: Parameters<LanguageModelV1['doGenerate']>[0]['mode'] & {
+    type: 'regular';
+  };
+}): {
+  tools: HFTransformersjsChatTool[] | undefined;
+  toolWarnings: LanguageModelV1CallWarning[];
+} {
+  // when the tools array is empty, change it to undefined to prevent errors:
+  const tools = mode.tools?.length ? mode.tools : undefined;
+  const toolWarnings: LanguageModelV1CallWarning[] = [];
+
+  if (tools == null) {
+    return { tools: undefined, toolWarnings };
+  }
+
+  const toolChoice = mode.toolChoice;
+
+  const chatTools: HFTransformersjsChatTool[] = [];
+  for (const tool of tools) {
+    if (tool.type === 'provider-defined') {
+      toolWarnings.push({ type: 'unsupported-tool', tool });
+    } else {
+      chatTools.push({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      });
+    }
+  }
+
+  if (toolChoice == null) {
+    return { tools: chatTools, toolWarnings };
+  }
+
+  const type = toolChoice.type;
+
+  switch (type) {
+    case 'auto':
+      return { tools: chatTools, toolWarnings };
+    case 'none':
+      return { tools: undefined, toolWarnings };
+    case 'required':
+      // chat templates cannot force a tool call, the model decides on its own:
+      toolWarnings.push({
+        type: 'other',
+        message: 'toolChoice "required" cannot be enforced; the model may answer with text instead.',
+      });
+      return { tools: chatTools, toolWarnings };
+    case 'tool':
+      // only expose the selected tool to the model:
+      return {
+        tools: chatTools.filter(
+          tool => tool.function.name === toolChoice.toolName,
+        ),
+        toolWarnings,
+      };
+    default: {
+      const _exhaustiveCheck: never = type;
+      throw new Error(`Unsupported tool choice type: ${_exhaustiveCheck}`);
+    }
+  }
+}
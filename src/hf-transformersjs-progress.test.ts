@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from "vitest";
+import { createProgressListener } from "./hf-transformersjs-progress";
+
+describe("createProgressListener", () => {
+  it("should report the progress of every file and of the whole model", () => {
+    const onProgress = vi.fn();
+    const listener = createProgressListener("model-a", [undefined, onProgress])!;
+
+    listener({ status: "initiate", name: "model-a", file: "config.json" });
+    listener({ status: "progress", name: "model-a", file: "model.onnx", progress: 25, loaded: 25, total: 100 });
+    listener({ status: "progress", name: "model-a", file: "tokenizer.json", progress: 50, loaded: 50, total: 100 });
+    listener({ status: "done", name: "model-a", file: "tokenizer.json" });
+    listener({ status: "progress", name: "model-a", file: "model.onnx", progress: 50, loaded: 50, total: 100 });
+    listener({ status: "ready", task: "text-generation", model: "model-a" });
+
+    expect(onProgress.mock.calls.map(([event]) => event)).toEqual([
+      { type: "initiate", modelId: "model-a", file: "config.json" },
+      {
+        type: "progress",
+        modelId: "model-a",
+        file: "model.onnx",
+        loadedBytes: 25,
+        totalBytes: 100,
+        progress: 25,
+        model: { loadedBytes: 25, totalBytes: 100, progress: 25 },
+      },
+      {
+        type: "progress",
+        modelId: "model-a",
+        file: "tokenizer.json",
+        loadedBytes: 50,
+        totalBytes: 100,
+        progress: 50,
+        model: { loadedBytes: 75, totalBytes: 200, progress: 37.5 },
+      },
+      { type: "done", modelId: "model-a", file: "tokenizer.json" },
+      {
+        type: "progress",
+        modelId: "model-a",
+        file: "model.onnx",
+        loadedBytes: 50,
+        totalBytes: 100,
+        progress: 50,
+        // the finished tokenizer counts as fully loaded:
+        model: { loadedBytes: 150, totalBytes: 200, progress: 75 },
+      },
+      { type: "ready", modelId: "model-a", task: "text-generation" },
+    ]);
+  });
+
+  it("should not listen without listeners", () => {
+    expect(createProgressListener("model-a", [undefined])).toBeUndefined();
+  });
+});
@@ -0,0 +1,98 @@
+import { HFTransformersjsLoadProgress } from './hf-transformersjs-pipeline-registry';
+
+/**
+ * Byte counts of a download. `progress` is the percentage, between 0 and 100.
+ */
+export type HFTransformersjsDownloadProgress = {
+  loadedBytes: number;
+  totalBytes: number;
+  progress: number;
+};
+
+/**
+ * Model loading progress. File events describe the model files one by one; `progress` events also
+ * carry the progress of the whole model, summed over the files whose size is known so far.
+ */
+export type HFTransformersjsProgressEvent =
+  | { type: 'initiate'; modelId: string; file: string }
+  | { type: 'download'; modelId: string; file: string }
+  | ({ type: 'progress'; modelId: string; file: string; model: HFTransformersjsDownloadProgress }
+    & HFTransformersjsDownloadProgress)
+  | { type: 'done'; modelId: string; file: string }
+  | { type: 'ready'; modelId: string; task: string };
+
+export type HFTransformersjsProgressListener = (event: HFTransformersjsProgressEvent) => void;
+
+/**
+ * Translates the transformers.js progress of a model load into progress events for the given
+ * listeners. Returns undefined when there are no listeners.
+ */
+export function createProgressListener(
+  modelId: string,
+  listeners: Array<HFTransformersjsProgressListener | undefined>,
+): ((progress: HFTransformersjsLoadProgress) => void) | undefined {
+  const activeListeners = listeners.filter(listener => listener != null);
+  if (activeListeners.length === 0) {
+    return undefined;
+  }
+
+  // bytes per file, for the model progress:
+  const files = new Map<string, { loadedBytes: number; totalBytes: number }>();
+  const emit = (event: HFTransformersjsProgressEvent) => {
+    for (const listener of activeListeners) {
+      listener(event);
+    }
+  };
+
+  return progress => {
+    switch (progress.status) {
+      case 'initiate':
+      case 'download':
+        emit({ type: progress.status, modelId, file: progress.file });
+        break;
+
+      case 'progress': {
+        files.set(progress.file, { loadedBytes: progress.loaded, totalBytes: progress.total });
+        emit({
+          type: 'progress',
+          modelId,
+          file: progress.file,
+          ...getDownloadProgress(progress.loaded, progress.total),
+          model: getModelProgress(),
+        });
+        break;
+      }
+
+      case 'done': {
+        const file = files.get(progress.file);
+        if (file != null) {
+          file.loadedBytes = file.totalBytes;
+        }
+        emit({ type: 'done', modelId, file: progress.file });
+        break;
+      }
+
+      case 'ready':
+        emit({ type: 'ready', modelId, task: progress.task });
+        break;
+    }
+  };
+
+  function getModelProgress(): HFTransformersjsDownloadProgress {
+    let loadedBytes = 0;
+    let totalBytes = 0;
+    for (const file of files.values()) {
+      loadedBytes += file.loadedBytes;
+      totalBytes += file.totalBytes;
+    }
+    return getDownloadProgress(loadedBytes, totalBytes);
+  }
+}
+
+function getDownloadProgress(loadedBytes: number, totalBytes: number): HFTransformersjsDownloadProgress {
+  return {
+    loadedBytes,
+    totalBytes,
+    progress: totalBytes > 0 ? (loadedBytes / totalBytes) * 100 : 0,
+  };
+}
@@ -0,0 +1,213 @@
+// @ts-nocheck
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createHFTransformersjs } from "./hf-transformersjs-provider";
+import { env, pipeline } from "@huggingface/transformers";
+
+vi.mock("@huggingface/transformers", () => {
+  return {
+    pipeline: vi.fn(),
+    env: {},
+  };
+});
+
+describe("createHFTransformersjs", () => {
+  let loadedPipelines;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    loadedPipelines = [];
+
+    // Reports the download of one file, then creates a pipeline that echoes its input
+    (pipeline as any).mockImplementation(async (task, modelId, options) => {
+      options.progress_callback?.({ status: "progress", name: modelId, file: "model.onnx", progress: 50, loaded: 5, total: 10 });
+      const loaded = vi.fn().mockResolvedValue([{ generated_text: "ok" }]);
+      loaded.task = task;
+      loaded.dispose = vi.fn().mockResolvedValue(undefined);
+      loadedPipelines.push(loaded);
+      return loaded;
+    });
+  });
+
+  it("should preload the pipelines of every task and report progress", async () => {
+    const provider = createHFTransformersjs({ name: "hf-test" });
+    const onProgress = vi.fn();
+
+    await provider.preload(["model-a", "model-b"], {
+      tasks: ["text-generation", "feature-extraction"],
+      onProgress,
+    });
+
+    expect(loadedPipelines.map(loaded => loaded.task)).toEqual([
+      "text-generation", "feature-extraction", "text-generation", "feature-extraction",
+    ]);
+    expect(onProgress).toHaveBeenCalledTimes(4);
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({
+      type: "progress",
+      modelId: "model-a",
+      loadedBytes: 5,
+      totalBytes: 10,
+    }));
+
+    // models created afterwards reuse the preloaded pipelines:
+    await provider.chatModel("model-a").warmup();
+    await provider.completionModel("model-b").warmup();
+    expect(pipeline).toHaveBeenCalledTimes(4);
+  });
+
+  it("should report progress to the provider and model listeners", async () => {
+    const providerListener = vi.fn();
+    const modelListener = vi.fn();
+    const provider = createHFTransformersjs({ name: "hf-test", onProgress: providerListener });
+
+    await provider.textEmbeddingModel("model-a", { onProgress: modelListener }).warmup();
+
+    for (const listener of [providerListener, modelListener]) {
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: "progress", modelId: "model-a" }));
+    }
+  });
+
+  it("should run a minimal generation when warming up with inference", async () => {
+    const provider = createHFTransformersjs({ name: "hf-test" });
+
+    await provider.chatModel("model-a", { dtype: "q4" }).warmup({ runInference: true });
+
+    expect(pipeline).toHaveBeenCalledWith("text-generation", "model-a", expect.objectContaining({ dtype: "q4" }));
+    expect(loadedPipelines[0]).toHaveBeenCalledWith("Hello", { max_new_tokens: 1 });
+  });
+
+  it("should dispose the pipelines of unloaded models", async () => {
+    const provider = createHFTransformersjs({ name: "hf-test" });
+    await provider.preload("model-a");
+
+    await provider.unload("model-a");
+
+    expect(loadedPipelines[0].dispose).toHaveBeenCalledTimes(1);
+  });
+
+  it("should apply the hub settings and the hub token during the load only", async () => {
+    const token = process.env.HF_TOKEN;
+    delete process.env.HF_TOKEN;
+    try {
+      const provider = createHFTransformersjs({
+        name: "hf-test",
+        apiKey: "server_secret",
+        hub: {
+          token: "hf_secret",
+          remoteHost: "https://mirror.example.com",
+          localModelPath: "/models",
+          offline: true,
+          cacheDir: "/tmp/hf",
+        },
+      });
+      let envDuringLoad;
+      let tokenDuringLoad;
+      (pipeline as any).mockImplementation(async () => {
+        envDuringLoad = { ...env };
+        tokenDuringLoad = process.env.HF_TOKEN;
+        return vi.fn();
+      });
+
+      await provider.chatModel("model-a").warmup();
+
+      expect(pipeline).toHaveBeenCalledWith("text-generation", "model-a", expect.objectContaining({
+        cache_dir: "/tmp/hf",
+        local_files_only: true,
+      }));
+      expect(envDuringLoad).toMatchObject({
+        remoteHost: "https://mirror.example.com/",
+        localModelPath: "/models",
+        allowLocalModels: true,
+        allowRemoteModels: false,
+      });
+      expect(tokenDuringLoad).toBe("hf_secret");
+      expect(env).toEqual({
+        remoteHost: undefined,
+        remotePathTemplate: undefined,
+        allowLocalModels: undefined,
+        localModelPath: undefined,
+        allowRemoteModels: undefined,
+      });
+      expect(process.env.HF_TOKEN).toBeUndefined();
+    } finally {
+      if (token != null) {
+        process.env.HF_TOKEN = token;
+      }
+    }
+  });
+
+  it("should send the api key as hub token for gated downloads", async () => {
+    const token = process.env.HF_TOKEN;
+    delete process.env.HF_TOKEN;
+    try {
+      (pipeline as any).mockImplementation(async () => {
+        if (process.env.HF_TOKEN !== "hf_secret") {
+          throw new Error("Unauthorized access to file");
+        }
+        return vi.fn();
+      });
+
+      await createHFTransformersjs({ name: "hf-test", apiKey: "hf_secret" }).chatModel("gated-model").warmup();
+
+      expect(pipeline).toHaveBeenCalledTimes(1);
+      expect(process.env.HF_TOKEN).toBeUndefined();
+    } finally {
+      if (token != null) {
+        process.env.HF_TOKEN = token;
+      }
+    }
+  });
+
+  it("should not use the api key of an inference server as hub token", async () => {
+    const token = process.env.HF_TOKEN;
+    delete process.env.HF_TOKEN;
+    try {
+      let tokenDuringLoad = "unset";
+      (pipeline as any).mockImplementation(async () => {
+        tokenDuringLoad = process.env.HF_TOKEN;
+        return vi.fn();
+      });
+      const provider = createHFTransformersjs({
+        name: "hf-test",
+        apiKey: "server_secret",
+        baseURL: "http://localhost:8080/v1",
+      });
+
+      // reranking models run locally with an inference server as well
+      await provider.preload("model-a", { tasks: ["text-classification"] });
+
+      expect(tokenDuringLoad).toBeUndefined();
+    } finally {
+      if (token != null) {
+        process.env.HF_TOKEN = token;
+      }
+    }
+  });
+
+  it("should not load models with other hub settings at the same time", async () => {
+    const loads = [];
+    (pipeline as any).mockImplementation(async (task, modelId) => {
+      // the settings must hold until the end of the load
+      await new Promise(resolve => setTimeout(resolve, 5));
+      loads.push({ modelId, remoteHost: env.remoteHost });
+      return vi.fn();
+    });
+    const mirror = createHFTransformersjs({ name: "a", hub: { remoteHost: "https://a.example.com/" } });
+    const other = createHFTransformersjs({ name: "b", hub: { remoteHost: "https://b.example.com/" } });
+
+    await Promise.all([mirror.chatModel("model-a").warmup(), other.chatModel("model-b").warmup()]);
+
+    expect(loads).toEqual([
+      { modelId: "model-a", remoteHost: "https://a.example.com/" },
+      { modelId: "model-b", remoteHost: "https://b.example.com/" },
+    ]);
+    expect(env.remoteHost).toBeUndefined();
+  });
+
+  it("should create query and document embedding models", () => {
+    const provider = createHFTransformersjs({ name: "hf-test" });
+
+    expect(provider.queryEmbeddingModel("intfloat/e5-small-v2", { normalize: true }).settings)
+        .toEqual({ normalize: true, inputType: "query" });
+    expect(provider.documentEmbeddingModel("intfloat/e5-small-v2").settings).toEqual({ inputType: "document" });
+  });
+});
@@ -1,12 +1,32 @@
 import {
-  EmbeddingModelV1,
   LanguageModelV1,
   ProviderV1,
 } from '@ai-sdk/provider';
+import { FetchFunction, withoutTrailingSlash } from '@ai-sdk/provider-utils';
 // Import your provider-specific language model implementations:
 import { HFTransformersjsChatLanguageModel } from './hf-transformersjs-chat-language-model';
 import { HFTransformersjsCompletionLanguageModel } from './hf-transformersjs-completion-language-model';
+import { HFTransformersjsChatLanguageModelOpenAICompatible } from './hf-transformersjs-chat-language-model-openai-compatible';
+import {
+  HFTransformersjsCompletionLanguageModelOpenAICompatible,
+} from './hf-transformersjs-completion-language-model-openai-compatible';
 import { HFTransformersjsEmbeddingModel } from './hf-transformersjs-embedding-model';
+import { HFTransformersjsRerankingModel } from './hf-transformersjs-reranking-model';
+import { HFTransformersjsTranscriptionModel } from './hf-transformersjs-transcription-model';
+import {
+  HFTransformersjsChatSettings,
+  HFTransformersjsCompletionSettings,
+  HFTransformersjsEmbeddingSettings,
+  HFTransformersjsRerankingSettings,
+  HFTransformersjsTranscriptionSettings,
+  HFTransformersjsPipelineSettings,
+} from './hf-transformersjs-settings';
+import { createPipelineRegistry } from './hf-transformersjs-pipeline-registry';
+import { HFTransformersjsModelConfig, HFTransformersjsWarmupOptions } from './hf-transformersjs-model-config';
+import { HFTransformersjsProgressListener } from './hf-transformersjs-progress';
+import { createLogger, HFTransformersjsLoggerSettings } from './hf-transformersjs-logger';
+import { HFTransformersjsRemoteConfig } from './hf-transformersjs-remote';
+import { HFTransformersjsHubSettings } from './hf-transformersjs-hub';
 
 export interface HFTransformersjsProvider<
     CHAT_MODEL_IDS extends string = string,
@@ -15,30 +35,110 @@ export interface HFTransformersjsProvider<
 > extends ProviderV1 {
   (
       modelId: CHAT_MODEL_IDS,
-      settings?: Record<string, unknown>,
+      settings?: HFTransformersjsChatSettings,
   ): LanguageModelV1;
 
   languageModel(
       modelId: CHAT_MODEL_IDS,
-      settings?: Record<string, unknown>,
+      settings?: HFTransformersjsChatSettings,
   ): LanguageModelV1;
 
   chatModel(
       modelId: CHAT_MODEL_IDS,
-      settings?: Record<string, unknown>,
-  ): LanguageModelV1;
+      settings?: HFTransformersjsChatSettings,
+  ): HFTransformersjsChatLanguageModel;
 
   completionModel(
       modelId: COMPLETION_MODEL_IDS,
-      settings?: Record<string, unknown>,
-  ): LanguageModelV1;
+      settings?: HFTransformersjsCompletionSettings,
+  ): HFTransformersjsCompletionLanguageModel;
 
   textEmbeddingModel(
       modelId: EMBEDDING_MODEL_IDS,
-      settings?: Record<string, unknown>,
-  ): EmbeddingModelV1<string>;
+      settings?: HFTransformersjsEmbeddingSettings,
+  ): HFTransformersjsEmbeddingModel;
+
+  /**
+   * Embedding model for search queries, with the query prefix of the model family.
+   */
+  queryEmbeddingModel(
+      modelId: EMBEDDING_MODEL_IDS,
+      settings?: HFTransformersjsEmbeddingSettings,
+  ): HFTransformersjsEmbeddingModel;
+
+  /**
+   * Embedding model for the documents to search, with the document prefix of the model family.
+   */
+  documentEmbeddingModel(
+      modelId: EMBEDDING_MODEL_IDS,
+      settings?: HFTransformersjsEmbeddingSettings,
+  ): HFTransformersjsEmbeddingModel;
+
+  /**
+   * Cross-encoder that reranks documents by their relevance to a query.
+   */
+  rerankingModel(
+      modelId: string,
+      settings?: HFTransformersjsRerankingSettings,
+  ): HFTransformersjsRerankingModel;
+
+  /**
+   * Speech recognition model that transcribes audio, e.g. a Whisper model.
+   */
+  transcriptionModel(
+      modelId: string,
+      settings?: HFTransformersjsTranscriptionSettings,
+  ): HFTransformersjsTranscriptionModel;
+
+  /**
+   * Chat model that takes OpenAI messages and parameters through `providerMetadata.openaiCompatible`
+   * and reports OpenAI-shaped requests and responses.
+   */
+  openAICompatibleChatModel(
+      modelId: CHAT_MODEL_IDS,
+      settings?: HFTransformersjsChatSettings,
+  ): HFTransformersjsChatLanguageModelOpenAICompatible;
+
+  /**
+   * Completion model that takes OpenAI parameters through `providerMetadata.openaiCompatible` and
+   * reports OpenAI-shaped requests and responses.
+   */
+  openAICompatibleCompletionModel(
+      modelId: COMPLETION_MODEL_IDS,
+      settings?: HFTransformersjsCompletionSettings,
+  ): HFTransformersjsCompletionLanguageModelOpenAICompatible;
+
+  /**
+   * Downloads and loads the models for the given tasks ahead of their first call. Resolves once
+   * all of them are ready.
+   */
+  preload(modelIds: string | string[], options?: HFTransformersjsPreloadOptions): Promise<void>;
+
+  /**
+   * Frees the memory of every pipeline loaded for the model. Pipelines that are in use are freed
+   * once their calls finish.
+   */
+  unload(modelId: string): Promise<void>;
+
+  /**
+   * Frees the memory of all loaded pipelines.
+   */
+  dispose(): Promise<void>;
 }
 
+export type HFTransformersjsPreloadOptions = HFTransformersjsWarmupOptions & {
+  /**
+   * Pipelines to load for every model. Defaults to `['text-generation']`.
+   */
+  tasks?: Array<'text-generation' | 'feature-extraction' | 'text-classification' | 'automatic-speech-recognition'>;
+
+  /**
+   * Settings of the models that will use the pipelines. Pipelines are only shared by models with
+   * the same dtype, device and revision.
+   */
+  settings?: HFTransformersjsPipelineSettings;
+};
+
 export interface HFTransformersjsProviderSettings {
   /**
    * Provider name.
@@ -46,9 +146,52 @@ export interface HFTransformersjsProviderSettings {
   name: string;
 
   /**
-   * API key for authenticating with HuggingFace, if required.
+   * API key of the inference server at `baseURL`, sent as a bearer token. Without a `baseURL` it is
+   * the Hugging Face access token for downloading gated and private models, unless `hub.token` is
+   * set.
    */
   apiKey?: string;
+
+  /**
+   * Where the models are downloaded from: hub token, mirror, local model directory, offline mode
+   * and cache directory.
+   */
+  hub?: HFTransformersjsHubSettings;
+
+  /**
+   * Base URL of an OpenAI-compatible inference server to run the models on instead of running them
+   * locally, e.g. `https://router.huggingface.co/v1` for the Hugging Face Inference API or
+   * `http://localhost:8080/v1` for a Text Generation / Text Embeddings Inference server.
+   */
+  baseURL?: string;
+
+  /**
+   * Custom headers to include in the requests to the inference server.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Custom fetch implementation for the requests to the inference server.
+   */
+  fetch?: FetchFunction;
+
+  /**
+   * Memory budget for the loaded models, in bytes, estimated by the size of their files. When the
+   * models exceed it, the least recently used ones that are not in use are disposed. Unlimited by
+   * default.
+   */
+  maxLoadedBytes?: number;
+
+  /**
+   * Receives the loading progress of every model of the provider.
+   */
+  onProgress?: HFTransformersjsProgressListener;
+
+  /**
+   * Logs what the models do. Nothing is logged by default. Use `redact` to keep prompts and
+   * generated text out of the logs.
+   */
+  logger?: HFTransformersjsLoggerSettings;
 }
 
 export function createHFTransformersjs<
@@ -62,43 +205,128 @@ export function createHFTransformersjs<
     COMPLETION_MODEL_IDS,
     EMBEDDING_MODEL_IDS
 > {
+  const logger = createLogger(options.logger);
+
+  // Without an inference server the api key is the token for the model downloads
+  const hub = options.hub?.token == null && options.baseURL == null && options.apiKey != null
+    ? { ...options.hub, token: options.apiKey }
+    : options.hub;
+
+  // Models of this provider share loaded pipelines
+  const pipelineRegistry = createPipelineRegistry({
+    maxLoadedBytes: options.maxLoadedBytes,
+    hub,
+  });
+
+  // With a base URL the models run on an inference server
+  const baseURL = withoutTrailingSlash(options.baseURL);
+  const remote: HFTransformersjsRemoteConfig | undefined = baseURL != null
+    ? {
+        provider: options.name,
+        baseURL,
+        headers: () => ({
+          ...(options.apiKey != null ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+          ...options.headers,
+        }),
+        fetch: options.fetch,
+      }
+    : undefined;
+
   // Create the common configuration for pipelines
-  const getCommonModelConfig = () => ({
+  const getCommonModelConfig = (): HFTransformersjsModelConfig => ({
     provider: options.name,
-    apiKey: options.apiKey,
+    pipelineRegistry,
+    onProgress: options.onProgress,
+    logger,
+    remote,
   });
 
   // Create a chat / text-generation model
   const createChatModel = (
       modelId: CHAT_MODEL_IDS,
-      settings: Record<string, unknown> = {},
-  ): LanguageModelV1 =>
+      settings: HFTransformersjsChatSettings = {},
+  ): HFTransformersjsChatLanguageModel =>
       new HFTransformersjsChatLanguageModel(modelId, settings, getCommonModelConfig());
 
   // For legacy or general languageModel access
   const createLanguageModel = (
       modelId: CHAT_MODEL_IDS,
-      settings: Record<string, unknown> = {},
+      settings: HFTransformersjsChatSettings = {},
   ): LanguageModelV1 => createChatModel(modelId, settings);
 
   // Create a completion model if it's somehow different
   const createCompletionModel = (
       modelId: COMPLETION_MODEL_IDS,
-      settings: Record<string, unknown> = {},
-  ): LanguageModelV1 =>
+      settings: HFTransformersjsCompletionSettings = {},
+  ): HFTransformersjsCompletionLanguageModel =>
       new HFTransformersjsCompletionLanguageModel(modelId, settings, getCommonModelConfig());
 
   // Create an embedding model
   const createEmbeddingModel = (
       modelId: EMBEDDING_MODEL_IDS,
-      settings: Record<string, unknown> = {},
-  ): EmbeddingModelV1<string> =>
+      settings: HFTransformersjsEmbeddingSettings = {},
+  ): HFTransformersjsEmbeddingModel =>
       new HFTransformersjsEmbeddingModel(modelId, settings, getCommonModelConfig());
 
+  const createQueryEmbeddingModel = (
+      modelId: EMBEDDING_MODEL_IDS,
+      settings: HFTransformersjsEmbeddingSettings = {},
+  ): HFTransformersjsEmbeddingModel => createEmbeddingModel(modelId, { ...settings, inputType: 'query' });
+
+  const createDocumentEmbeddingModel = (
+      modelId: EMBEDDING_MODEL_IDS,
+      settings: HFTransformersjsEmbeddingSettings = {},
+  ): HFTransformersjsEmbeddingModel => createEmbeddingModel(modelId, { ...settings, inputType: 'document' });
+
+  const createRerankingModel = (
+      modelId: string,
+      settings: HFTransformersjsRerankingSettings = {},
+  ): HFTransformersjsRerankingModel =>
+      new HFTransformersjsRerankingModel(modelId, settings, getCommonModelConfig());
+
+  const createTranscriptionModel = (
+      modelId: string,
+      settings: HFTransformersjsTranscriptionSettings = {},
+  ): HFTransformersjsTranscriptionModel =>
+      new HFTransformersjsTranscriptionModel(modelId, settings, getCommonModelConfig());
+
+  // Create the OpenAI-compatible flavors of the chat and completion models
+  const createOpenAICompatibleChatModel = (
+      modelId: CHAT_MODEL_IDS,
+      settings: HFTransformersjsChatSettings = {},
+  ): HFTransformersjsChatLanguageModelOpenAICompatible =>
+      new HFTransformersjsChatLanguageModelOpenAICompatible(modelId, settings, getCommonModelConfig());
+
+  const createOpenAICompatibleCompletionModel = (
+      modelId: COMPLETION_MODEL_IDS,
+      settings: HFTransformersjsCompletionSettings = {},
+  ): HFTransformersjsCompletionLanguageModelOpenAICompatible =>
+      new HFTransformersjsCompletionLanguageModelOpenAICompatible(modelId, settings, getCommonModelConfig());
+
+  // Warm up a model of every task, loading their pipelines into the shared registry
+  const preload = async (
+      modelIds: string | string[],
+      { tasks = ['text-generation'], settings = {}, ...warmupOptions }: HFTransformersjsPreloadOptions = {},
+  ): Promise<void> => {
+    const models = (Array.isArray(modelIds) ? modelIds : [modelIds]).flatMap(modelId => tasks.map(task => {
+      switch (task) {
+        case 'feature-extraction':
+          return new HFTransformersjsEmbeddingModel(modelId, settings, getCommonModelConfig());
+        case 'text-classification':
+          return new HFTransformersjsRerankingModel(modelId, settings, getCommonModelConfig());
+        case 'automatic-speech-recognition':
+          return new HFTransformersjsTranscriptionModel(modelId, settings, getCommonModelConfig());
+        default:
+          return new HFTransformersjsChatLanguageModel(modelId, settings, getCommonModelConfig());
+      }
+    }));
+    await Promise.all(models.map(model => model.warmup(warmupOptions)));
+  };
+
   // The main provider function (returns a default language model)
   const provider = function(
       modelId: CHAT_MODEL_IDS,
-      settings?: Record<string, unknown>,
+      settings?: HFTransformersjsChatSettings,
   ): LanguageModelV1 {
     return createLanguageModel(modelId, settings);
   } as unknown as HFTransformersjsProvider<
@@ -111,6 +339,15 @@ export function createHFTransformersjs<
   provider.chatModel = createChatModel;
   provider.completionModel = createCompletionModel;
   provider.textEmbeddingModel = createEmbeddingModel;
+  provider.queryEmbeddingModel = createQueryEmbeddingModel;
+  provider.documentEmbeddingModel = createDocumentEmbeddingModel;
+  provider.rerankingModel = createRerankingModel;
+  provider.transcriptionModel = createTranscriptionModel;
+  provider.openAICompatibleChatModel = createOpenAICompatibleChatModel;
+  provider.openAICompatibleCompletionModel = createOpenAICompatibleCompletionModel;
+  provider.preload = preload;
+  provider.unload = pipelineRegistry.unload;
+  provider.dispose = pipelineRegistry.dispose;
 
   return provider;
 }
\ No newline at end of file
@@ -0,0 +1,367 @@
+import {
+  InvalidResponseDataError,
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1CallWarning,
+  LanguageModelV1FinishReason,
+  LanguageModelV1StreamPart,
+  LanguageModelV1ToolChoice,
+} from '@ai-sdk/provider';
+import {
+  combineHeaders,
+  createEventSourceResponseHandler,
+  createJsonResponseHandler,
+  generateId,
+  ParseResult,
+  postJsonToApi,
+} from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+import { applyGenerationSettings, HFTransformersjsChatSettings } from './hf-transformersjs-settings';
+import { prepareTools } from './hf-transformersjs-prepare-tools';
+import { mapOpenAICompatibleFinishReason } from './map-openai-compatible-finish-reason';
+import {
+  convertToRemoteChatMessages,
+  getRemoteUsage,
+  HFTransformersjsRemoteConfig,
+  remoteFailedResponseHandler,
+  remoteUsageSchema,
+} from './hf-transformersjs-remote';
+
+/**
+ * Chat model served by an OpenAI-compatible inference server instead of a local pipeline. Used by
+ * the chat models of a provider that has a `baseURL`.
+ */
+export class HFTransformersjsRemoteChatLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1';
+  readonly defaultObjectGenerationMode = 'json';
+  readonly modelId: string;
+  readonly settings: HFTransformersjsChatSettings;
+
+  private readonly config: HFTransformersjsRemoteConfig;
+
+  constructor(modelId: string, settings: HFTransformersjsChatSettings, config: HFTransformersjsRemoteConfig) {
+    this.modelId = modelId;
+    this.settings = settings;
+    this.config = config;
+  }
+
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  private getArgs(callOptions: LanguageModelV1CallOptions) {
+    const options = applyGenerationSettings(callOptions, this.settings);
+    const warnings: LanguageModelV1CallWarning[] = [];
+
+    if (options.topK != null) {
+      warnings.push({ type: 'unsupported-setting', setting: 'topK' });
+    }
+
+    const baseArgs = {
+      model: this.modelId,
+      messages: convertToRemoteChatMessages(options.prompt),
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      top_p: options.topP,
+      frequency_penalty: options.frequencyPenalty,
+      presence_penalty: options.presencePenalty,
+      seed: options.seed,
+      stop: options.stopSequences,
+    };
+
+    const mode = options.mode;
+    switch (mode.type) {
+      case 'regular': {
+        const { tools, toolWarnings } = prepareTools({ mode });
+        warnings.push(...toolWarnings);
+        return {
+          args: {
+            ...baseArgs,
+            tools,
+            tool_choice: tools != null ? getToolChoice(mode.toolChoice) : undefined,
+          },
+          warnings,
+        };
+      }
+
+      case 'object-json': {
+        return {
+          args: {
+            ...baseArgs,
+            response_format: mode.schema != null
+              ? { type: 'json_schema', json_schema: { name: mode.name ?? 'response', schema: mode.schema } }
+              : { type: 'json_object' },
+          },
+          warnings,
+        };
+      }
+
+      case 'object-tool': {
+        return {
+          args: {
+            ...baseArgs,
+            tools: [{
+              type: 'function',
+              function: {
+                name: mode.tool.name,
+                description: mode.tool.description,
+                parameters: mode.tool.parameters,
+              },
+            }],
+            tool_choice: { type: 'function', function: { name: mode.tool.name } },
+          },
+          warnings,
+        };
+      }
+
+      default: {
+        const _exhaustiveCheck: never = mode;
+        throw new Error(`Unsupported type: ${_exhaustiveCheck}`);
+      }
+    }
+  }
+
+  async doGenerate(
+      options: LanguageModelV1CallOptions,
+  ): Promise<Awaited<ReturnType<LanguageModelV1['doGenerate']>>> {
+    const { args, warnings } = this.getArgs(options);
+
+    const { responseHeaders, value: response, rawValue } = await postJsonToApi({
+      url: `${this.config.baseURL}/chat/completions`,
+      headers: combineHeaders(this.config.headers(), options.headers),
+      body: args,
+      failedResponseHandler: remoteFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(chatCompletionResponseSchema),
+      abortSignal: options.abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    const choice = response.choices[0];
+    if (choice == null) {
+      throw new InvalidResponseDataError({ data: response, message: 'The response contains no choices.' });
+    }
+    const { messages: rawPrompt, ...rawSettings } = args;
+
+    return {
+      text: choice.message.content ?? undefined,
+      toolCalls: choice.message.tool_calls?.map(toolCall => ({
+        toolCallType: 'function',
+        toolCallId: toolCall.id ?? generateId(),
+        toolName: toolCall.function.name,
+        args: getToolCallArgs(toolCall.function.arguments),
+      })),
+      finishReason: mapOpenAICompatibleFinishReason(choice.finish_reason),
+      usage: getRemoteUsage(response.usage),
+      rawCall: { rawPrompt, rawSettings },
+      rawResponse: { headers: responseHeaders, body: rawValue },
+      request: { body: JSON.stringify(args) },
+      response: {
+        id: response.id ?? undefined,
+        timestamp: response.created != null ? new Date(response.created * 1000) : undefined,
+        modelId: response.model ?? undefined,
+      },
+      warnings,
+    };
+  }
+
+  async doStream(options: LanguageModelV1CallOptions): Promise<{
+    stream: ReadableStream<LanguageModelV1StreamPart>;
+    rawCall: { rawPrompt: unknown; rawSettings: Record<string, unknown> };
+    rawResponse?: { headers?: Record<string, string> };
+    request: { body: string };
+    warnings?: LanguageModelV1CallWarning[];
+  }> {
+    const { args, warnings } = this.getArgs(options);
+    const body = { ...args, stream: true, stream_options: { include_usage: true } };
+
+    const { responseHeaders, value: response } = await postJsonToApi({
+      url: `${this.config.baseURL}/chat/completions`,
+      headers: combineHeaders(this.config.headers(), options.headers),
+      body,
+      failedResponseHandler: remoteFailedResponseHandler,
+      successfulResponseHandler: createEventSourceResponseHandler(chatCompletionChunkSchema),
+      abortSignal: options.abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    // tool calls arrive in pieces, keyed by their index
+    const toolCalls: Array<{ id: string; name: string; arguments: string }> = [];
+    let finishReason: LanguageModelV1FinishReason = 'unknown';
+    let usage = getRemoteUsage(undefined);
+    let isFirstChunk = true;
+
+    const { messages: rawPrompt, ...rawSettings } = args;
+
+    return {
+      stream: response.pipeThrough(
+        new TransformStream<ParseResult<z.infer<typeof chatCompletionChunkSchema>>, LanguageModelV1StreamPart>({
+          transform(chunk, controller) {
+            if (!chunk.success) {
+              finishReason = 'error';
+              controller.enqueue({ type: 'error', error: chunk.error });
+              return;
+            }
+            const value = chunk.value;
+
+            if ('error' in value) {
+              finishReason = 'error';
+              controller.enqueue({
+                type: 'error',
+                error: typeof value.error === 'string' ? value.error : value.error.message,
+              });
+              return;
+            }
+
+            if (isFirstChunk) {
+              isFirstChunk = false;
+              controller.enqueue({
+                type: 'response-metadata',
+                id: value.id ?? undefined,
+                timestamp: value.created != null ? new Date(value.created * 1000) : undefined,
+                modelId: value.model ?? undefined,
+              });
+            }
+
+            if (value.usage != null) {
+              usage = getRemoteUsage(value.usage);
+            }
+
+            // the final chunk can hold only the usage
+            const choice = value.choices[0];
+            if (choice == null) {
+              return;
+            }
+            if (choice.finish_reason != null) {
+              finishReason = mapOpenAICompatibleFinishReason(choice.finish_reason);
+            }
+
+            const delta = choice.delta;
+            if (delta == null) {
+              return;
+            }
+
+            if (delta.content) {
+              controller.enqueue({ type: 'text-delta', textDelta: delta.content });
+            }
+
+            for (const toolCallDelta of delta.tool_calls ?? []) {
+              const index = toolCallDelta.index ?? 0;
+              if (toolCalls[index] == null) {
+                if (toolCallDelta.function?.name == null) {
+                  throw new InvalidResponseDataError({
+                    data: toolCallDelta,
+                    message: 'Expected the first delta of a tool call to contain its function name.',
+                  });
+                }
+                toolCalls[index] = {
+                  id: toolCallDelta.id ?? generateId(),
+                  name: toolCallDelta.function.name,
+                  arguments: '',
+                };
+              }
+
+              const toolCall = toolCalls[index];
+              const argsTextDelta = getToolCallArgs(toolCallDelta.function?.arguments);
+              if (argsTextDelta) {
+                toolCall.arguments += argsTextDelta;
+                controller.enqueue({
+                  type: 'tool-call-delta',
+                  toolCallType: 'function',
+                  toolCallId: toolCall.id,
+                  toolName: toolCall.name,
+                  argsTextDelta,
+                });
+              }
+            }
+          },
+
+          flush(controller) {
+            for (const toolCall of toolCalls) {
+              controller.enqueue({
+                type: 'tool-call',
+                toolCallType: 'function',
+                toolCallId: toolCall.id,
+                toolName: toolCall.name,
+                args: toolCall.arguments,
+              });
+            }
+            controller.enqueue({ type: 'finish', finishReason, usage });
+          },
+        }),
+      ),
+      rawCall: { rawPrompt, rawSettings },
+      rawResponse: { headers: responseHeaders },
+      request: { body: JSON.stringify(body) },
+      warnings,
+    };
+  }
+}
+
+// The tool choices that the tools do not express already: "none" leaves the tools out, and "tool"
+// only sends the chosen tool
+function getToolChoice(toolChoice: LanguageModelV1ToolChoice | undefined) {
+  switch (toolChoice?.type) {
+    case 'required':
+      return 'required';
+    case 'tool':
+      return { type: 'function', function: { name: toolChoice.toolName } };
+    default:
+      return undefined;
+  }
+}
+
+// TGI sends the arguments as an object
+function getToolCallArgs(args: unknown): string {
+  if (args == null) {
+    return '';
+  }
+  return typeof args === 'string' ? args : JSON.stringify(args);
+}
+
+const toolCallArgumentsSchema = z.union([z.string(), z.record(z.unknown())]);
+
+const chatCompletionResponseSchema = z.object({
+  id: z.string().nullish(),
+  created: z.number().nullish(),
+  model: z.string().nullish(),
+  choices: z.array(z.object({
+    message: z.object({
+      content: z.string().nullish(),
+      tool_calls: z.array(z.object({
+        id: z.string().nullish(),
+        function: z.object({
+          name: z.string(),
+          arguments: toolCallArgumentsSchema,
+        }),
+      })).nullish(),
+    }),
+    finish_reason: z.string().nullish(),
+  })),
+  usage: remoteUsageSchema,
+});
+
+const chatCompletionChunkSchema = z.union([
+  z.object({
+    id: z.string().nullish(),
+    created: z.number().nullish(),
+    model: z.string().nullish(),
+    choices: z.array(z.object({
+      delta: z.object({
+        content: z.string().nullish(),
+        tool_calls: z.array(z.object({
+          index: z.number().nullish(),
+          id: z.string().nullish(),
+          function: z.object({
+            name: z.string().nullish(),
+            arguments: toolCallArgumentsSchema.nullish(),
+          }).nullish(),
+        })).nullish(),
+      }).nullish(),
+      finish_reason: z.string().nullish(),
+    })),
+    usage: remoteUsageSchema,
+  }),
+  z.object({
+    error: z.union([z.string(), z.object({ message: z.string() })]),
+  }),
+]);
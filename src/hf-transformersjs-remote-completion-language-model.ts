@@ -0,0 +1,243 @@
+import {
+  InvalidResponseDataError,
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1CallWarning,
+  LanguageModelV1FinishReason,
+  LanguageModelV1Prompt,
+  LanguageModelV1StreamPart,
+  UnsupportedFunctionalityError,
+} from '@ai-sdk/provider';
+import {
+  combineHeaders,
+  createEventSourceResponseHandler,
+  createJsonResponseHandler,
+  ParseResult,
+  postJsonToApi,
+} from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+import { applyGenerationSettings, HFTransformersjsCompletionSettings } from './hf-transformersjs-settings';
+import { mapOpenAICompatibleFinishReason } from './map-openai-compatible-finish-reason';
+import {
+  getRemoteUsage,
+  HFTransformersjsRemoteConfig,
+  remoteFailedResponseHandler,
+  remoteUsageSchema,
+} from './hf-transformersjs-remote';
+
+/**
+ * Completion model served by an OpenAI-compatible inference server instead of a local pipeline.
+ * Used by the completion models of a provider that has a `baseURL`.
+ */
+export class HFTransformersjsRemoteCompletionLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1';
+  readonly defaultObjectGenerationMode = undefined;
+  readonly modelId: string;
+  readonly settings: HFTransformersjsCompletionSettings;
+
+  private readonly config: HFTransformersjsRemoteConfig;
+
+  constructor(modelId: string, settings: HFTransformersjsCompletionSettings, config: HFTransformersjsRemoteConfig) {
+    this.modelId = modelId;
+    this.settings = settings;
+    this.config = config;
+  }
+
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  private getArgs(callOptions: LanguageModelV1CallOptions) {
+    const options = applyGenerationSettings(callOptions, this.settings);
+    const warnings: LanguageModelV1CallWarning[] = [];
+
+    if (options.topK != null) {
+      warnings.push({ type: 'unsupported-setting', setting: 'topK' });
+    }
+
+    const mode = options.mode;
+    if (mode.type !== 'regular') {
+      throw new UnsupportedFunctionalityError({ functionality: `${mode.type} mode` });
+    }
+    if (mode.tools?.length) {
+      throw new UnsupportedFunctionalityError({ functionality: 'tools' });
+    }
+
+    return {
+      args: {
+        model: this.modelId,
+        prompt: getPromptText(options.prompt),
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        top_p: options.topP,
+        frequency_penalty: options.frequencyPenalty,
+        presence_penalty: options.presencePenalty,
+        seed: options.seed,
+        stop: options.stopSequences,
+      },
+      warnings,
+    };
+  }
+
+  async doGenerate(
+      options: LanguageModelV1CallOptions,
+  ): Promise<Awaited<ReturnType<LanguageModelV1['doGenerate']>>> {
+    const { args, warnings } = this.getArgs(options);
+
+    const { responseHeaders, value: response, rawValue } = await postJsonToApi({
+      url: `${this.config.baseURL}/completions`,
+      headers: combineHeaders(this.config.headers(), options.headers),
+      body: args,
+      failedResponseHandler: remoteFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(completionResponseSchema),
+      abortSignal: options.abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    const choice = response.choices[0];
+    if (choice == null) {
+      throw new InvalidResponseDataError({ data: response, message: 'The response contains no choices.' });
+    }
+    const { prompt: rawPrompt, ...rawSettings } = args;
+
+    return {
+      text: choice.text,
+      finishReason: mapOpenAICompatibleFinishReason(choice.finish_reason),
+      usage: getRemoteUsage(response.usage),
+      rawCall: { rawPrompt, rawSettings },
+      rawResponse: { headers: responseHeaders, body: rawValue },
+      request: { body: JSON.stringify(args) },
+      response: {
+        id: response.id ?? undefined,
+        timestamp: response.created != null ? new Date(response.created * 1000) : undefined,
+        modelId: response.model ?? undefined,
+      },
+      warnings,
+    };
+  }
+
+  async doStream(options: LanguageModelV1CallOptions): Promise<{
+    stream: ReadableStream<LanguageModelV1StreamPart>;
+    rawCall: { rawPrompt: unknown; rawSettings: Record<string, unknown> };
+    rawResponse?: { headers?: Record<string, string> };
+    request: { body: string };
+    warnings?: LanguageModelV1CallWarning[];
+  }> {
+    const { args, warnings } = this.getArgs(options);
+    const body = { ...args, stream: true, stream_options: { include_usage: true } };
+
+    const { responseHeaders, value: response } = await postJsonToApi({
+      url: `${this.config.baseURL}/completions`,
+      headers: combineHeaders(this.config.headers(), options.headers),
+      body,
+      failedResponseHandler: remoteFailedResponseHandler,
+      successfulResponseHandler: createEventSourceResponseHandler(completionChunkSchema),
+      abortSignal: options.abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    let finishReason: LanguageModelV1FinishReason = 'unknown';
+    let usage = getRemoteUsage(undefined);
+    let isFirstChunk = true;
+
+    const { prompt: rawPrompt, ...rawSettings } = args;
+
+    return {
+      stream: response.pipeThrough(
+        new TransformStream<ParseResult<z.infer<typeof completionChunkSchema>>, LanguageModelV1StreamPart>({
+          transform(chunk, controller) {
+            if (!chunk.success) {
+              finishReason = 'error';
+              controller.enqueue({ type: 'error', error: chunk.error });
+              return;
+            }
+            const value = chunk.value;
+
+            if ('error' in value) {
+              finishReason = 'error';
+              controller.enqueue({
+                type: 'error',
+                error: typeof value.error === 'string' ? value.error : value.error.message,
+              });
+              return;
+            }
+
+            if (isFirstChunk) {
+              isFirstChunk = false;
+              controller.enqueue({
+                type: 'response-metadata',
+                id: value.id ?? undefined,
+                timestamp: value.created != null ? new Date(value.created * 1000) : undefined,
+                modelId: value.model ?? undefined,
+              });
+            }
+
+            if (value.usage != null) {
+              usage = getRemoteUsage(value.usage);
+            }
+
+            // the final chunk can hold only the usage
+            const choice = value.choices[0];
+            if (choice == null) {
+              return;
+            }
+            if (choice.finish_reason != null) {
+              finishReason = mapOpenAICompatibleFinishReason(choice.finish_reason);
+            }
+            if (choice.text) {
+              controller.enqueue({ type: 'text-delta', textDelta: choice.text });
+            }
+          },
+
+          flush(controller) {
+            controller.enqueue({ type: 'finish', finishReason, usage });
+          },
+        }),
+      ),
+      rawCall: { rawPrompt, rawSettings },
+      rawResponse: { headers: responseHeaders },
+      request: { body: JSON.stringify(body) },
+      warnings,
+    };
+  }
+}
+
+// Same prompt text as the local completion models: the message texts, one message per line
+function getPromptText(prompt: LanguageModelV1Prompt): string {
+  return prompt.map(message => {
+    if (typeof message.content === 'string') {
+      return message.content;
+    }
+    return message.content
+      .filter(part => 'text' in part)
+      .map(part => ('text' in part ? part.text : ''))
+      .join(' ');
+  }).join('\n');
+}
+
+const completionResponseSchema = z.object({
+  id: z.string().nullish(),
+  created: z.number().nullish(),
+  model: z.string().nullish(),
+  choices: z.array(z.object({
+    text: z.string(),
+    finish_reason: z.string().nullish(),
+  })),
+  usage: remoteUsageSchema,
+});
+
+const completionChunkSchema = z.union([
+  z.object({
+    id: z.string().nullish(),
+    created: z.number().nullish(),
+    model: z.string().nullish(),
+    choices: z.array(z.object({
+      text: z.string().nullish(),
+      finish_reason: z.string().nullish(),
+    })),
+    usage: remoteUsageSchema,
+  }),
+  z.object({
+    error: z.union([z.string(), z.object({ message: z.string() })]),
+  }),
+]);
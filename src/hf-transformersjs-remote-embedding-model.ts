@@ -0,0 +1,79 @@
+import { EmbeddingModelV1, TooManyEmbeddingValuesForCallError } from '@ai-sdk/provider';
+import { combineHeaders, createJsonResponseHandler, postJsonToApi } from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+import { HFTransformersjsEmbeddingSettings } from './hf-transformersjs-settings';
+import { HFTransformersjsRemoteConfig, remoteFailedResponseHandler } from './hf-transformersjs-remote';
+import { applyEmbeddingTemplate, getEmbeddingTemplate } from './hf-transformersjs-embedding-prefixes';
+
+/**
+ * Embedding model served by an OpenAI-compatible embeddings endpoint, e.g. a Text Embeddings
+ * Inference server. Used by the embedding models of a provider that has a `baseURL`.
+ */
+export class HFTransformersjsRemoteEmbeddingModel implements EmbeddingModelV1<string> {
+  readonly specificationVersion = 'v1';
+  readonly modelId: string;
+  readonly settings: HFTransformersjsEmbeddingSettings;
+  readonly supportsParallelCalls = true;
+  readonly maxEmbeddingsPerCall = 2048;
+
+  private readonly config: HFTransformersjsRemoteConfig;
+
+  constructor(modelId: string, settings: HFTransformersjsEmbeddingSettings, config: HFTransformersjsRemoteConfig) {
+    this.modelId = modelId;
+    this.settings = settings;
+    this.config = config;
+  }
+
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  async doEmbed({
+    values,
+    headers,
+    abortSignal,
+  }: Parameters<EmbeddingModelV1<string>['doEmbed']>[0]): Promise<
+    Awaited<ReturnType<EmbeddingModelV1<string>['doEmbed']>>
+  > {
+    if (values.length > this.maxEmbeddingsPerCall) {
+      throw new TooManyEmbeddingValuesForCallError({
+        provider: this.provider,
+        modelId: this.modelId,
+        maxEmbeddingsPerCall: this.maxEmbeddingsPerCall,
+        values,
+      });
+    }
+
+    const template = getEmbeddingTemplate(this.modelId, this.settings);
+    const { responseHeaders, value: response } = await postJsonToApi({
+      url: `${this.config.baseURL}/embeddings`,
+      headers: combineHeaders(this.config.headers(), headers),
+      body: {
+        model: this.modelId,
+        input: values.map(value => applyEmbeddingTemplate(template, value)),
+        encoding_format: 'float',
+        dimensions: this.settings.dimensions,
+      },
+      failedResponseHandler: remoteFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(embeddingResponseSchema),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    return {
+      embeddings: [...response.data]
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map(item => item.embedding),
+      usage: response.usage?.prompt_tokens != null ? { tokens: response.usage.prompt_tokens } : undefined,
+      rawResponse: { headers: responseHeaders },
+    };
+  }
+}
+
+const embeddingResponseSchema = z.object({
+  data: z.array(z.object({
+    index: z.number().nullish(),
+    embedding: z.array(z.number()),
+  })),
+  usage: z.object({ prompt_tokens: z.number().nullish() }).nullish(),
+});
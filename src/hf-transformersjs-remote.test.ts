@@ -0,0 +1,231 @@
+// @ts-nocheck
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createServer } from "node:http";
+import { createHFTransformersjs } from "./hf-transformersjs-provider";
+import { pipeline } from "@huggingface/transformers";
+
+vi.mock("@huggingface/transformers", () => {
+  return {
+    pipeline: vi.fn(),
+  };
+});
+
+describe("remote inference", () => {
+  let server;
+  let provider;
+  let requests;
+  let respond;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    requests = [];
+
+    // Stub inference server: records the requests and answers with `respond`
+    server = createServer(async (req, res) => {
+      let body = "";
+      for await (const chunk of req) {
+        body += chunk;
+      }
+      requests.push({ url: req.url, headers: req.headers, body: JSON.parse(body) });
+      const { status = 200, json, events } = respond(req.url);
+      if (events != null) {
+        res.writeHead(status, { "Content-Type": "text/event-stream" });
+        res.end(events.map(event => `data: ${typeof event === "string" ? event : JSON.stringify(event)}\n\n`).join(""));
+      } else {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(json));
+      }
+    });
+    await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+
+    provider = createHFTransformersjs({
+      name: "hf-test",
+      apiKey: "hf_secret",
+      baseURL: `http://127.0.0.1:${server.address().port}/v1/`,
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const prompt = [{ role: "user", content: [{ type: "text", text: "Hi" }] }];
+
+  it("should generate chat completions on the server with the api key", async () => {
+    respond = () => ({
+      json: {
+        id: "chatcmpl-1",
+        created: 1700000000,
+        model: "test-model",
+        choices: [{ message: { role: "assistant", content: "Hello" }, finish_reason: "stop" }],
+        usage: { prompt_tokens: 3, completion_tokens: 1 },
+      },
+    });
+
+    const result = await provider.chatModel("test-model", { temperature: 0.5 }).doGenerate({
+      inputFormat: "messages",
+      mode: { type: "regular" },
+      prompt,
+      maxTokens: 10,
+    });
+
+    expect(result).toMatchObject({
+      text: "Hello",
+      finishReason: "stop",
+      usage: { promptTokens: 3, completionTokens: 1 },
+      response: { id: "chatcmpl-1", modelId: "test-model" },
+    });
+    expect(requests[0]).toMatchObject({
+      url: "/v1/chat/completions",
+      headers: { authorization: "Bearer hf_secret" },
+      body: {
+        model: "test-model",
+        messages: [{ role: "user", content: "Hi" }],
+        max_tokens: 10,
+        temperature: 0.5,
+      },
+    });
+    expect(pipeline).not.toHaveBeenCalled();
+  });
+
+  it("should stream text and tool calls from server-sent events", async () => {
+    respond = () => ({
+      events: [
+        { id: "chatcmpl-2", model: "test-model", choices: [{ delta: { content: "Let me check" } }] },
+        {
+          choices: [{
+            delta: { tool_calls: [{ index: 0, id: "call-1", function: { name: "weather", arguments: '{"city":' } }] },
+          }],
+        },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '"Paris"}' } }] } }] },
+        { choices: [{ delta: {}, finish_reason: "tool_calls" }], usage: { prompt_tokens: 5, completion_tokens: 7 } },
+        "[DONE]",
+      ],
+    });
+
+    const { stream } = await provider.chatModel("test-model").doStream({
+      inputFormat: "messages",
+      mode: { type: "regular", tools: [{ type: "function", name: "weather", parameters: { type: "object" } }] },
+      prompt,
+    });
+    const parts = [];
+    for await (const part of stream) {
+      parts.push(part);
+    }
+
+    expect(requests[0].body).toMatchObject({ stream: true, tools: [{ type: "function", function: { name: "weather" } }] });
+    expect(parts[0]).toMatchObject({ type: "response-metadata", id: "chatcmpl-2" });
+    expect(parts).toContainEqual({ type: "text-delta", textDelta: "Let me check" });
+    expect(parts).toContainEqual({
+      type: "tool-call",
+      toolCallType: "function",
+      toolCallId: "call-1",
+      toolName: "weather",
+      args: '{"city":"Paris"}',
+    });
+    expect(parts.at(-1)).toEqual({
+      type: "finish",
+      finishReason: "tool-calls",
+      usage: { promptTokens: 5, completionTokens: 7 },
+    });
+  });
+
+  it("should skip stream chunks without choices", async () => {
+    respond = () => ({
+      events: [
+        { id: "cmpl-1", choices: [{ text: "Hi", finish_reason: "stop" }] },
+        { choices: [], usage: { prompt_tokens: 2, completion_tokens: 1 } },
+        "[DONE]",
+      ],
+    });
+
+    const { stream } = await provider.completionModel("test-model").doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt,
+    });
+    const parts = [];
+    for await (const part of stream) {
+      parts.push(part);
+    }
+
+    expect(parts.filter(part => part.type === "error")).toEqual([]);
+    expect(parts.at(-1)).toEqual({
+      type: "finish",
+      finishReason: "stop",
+      usage: { promptTokens: 2, completionTokens: 1 },
+    });
+  });
+
+  it("should reject responses without choices", async () => {
+    respond = () => ({ json: { choices: [] } });
+
+    await expect(provider.chatModel("test-model").doGenerate({
+      inputFormat: "messages",
+      mode: { type: "regular" },
+      prompt,
+    })).rejects.toMatchObject({ name: "AI_InvalidResponseDataError" });
+    await expect(provider.completionModel("test-model").doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt,
+    })).rejects.toMatchObject({ name: "AI_InvalidResponseDataError" });
+  });
+
+  it("should forward the chosen tool to the server", async () => {
+    respond = () => ({ json: { choices: [{ message: { content: null }, finish_reason: "tool_calls" }] } });
+
+    await provider.chatModel("test-model").doGenerate({
+      inputFormat: "messages",
+      mode: {
+        type: "regular",
+        tools: [
+          { type: "function", name: "weather", parameters: { type: "object" } },
+          { type: "function", name: "time", parameters: { type: "object" } },
+        ],
+        toolChoice: { type: "tool", toolName: "weather" },
+      },
+      prompt,
+    });
+
+    expect(requests[0].body).toMatchObject({
+      tools: [{ type: "function", function: { name: "weather" } }],
+      tool_choice: { type: "function", function: { name: "weather" } },
+    });
+  });
+
+  it("should generate completions and embeddings on the server", async () => {
+    respond = url => url === "/v1/completions"
+      ? { json: { choices: [{ text: " there", finish_reason: "length" }] } }
+      : { json: { data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }], usage: { prompt_tokens: 4 } } };
+
+    const completion = await provider.completionModel("test-model").doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt,
+    });
+    const { embeddings, usage } = await provider.textEmbeddingModel("embed-model").doEmbed({ values: ["a", "b"] });
+
+    expect(completion).toMatchObject({ text: " there", finishReason: "length" });
+    expect(requests[0].body).toMatchObject({ model: "test-model", prompt: "Hi" });
+    expect(embeddings).toEqual([[1, 0], [0, 1]]);
+    expect(usage).toEqual({ tokens: 4 });
+    expect(requests[1].body).toEqual({ model: "embed-model", input: ["a", "b"], encoding_format: "float" });
+  });
+
+  it("should report server errors as API call errors", async () => {
+    respond = () => ({ status: 422, json: { error: "Input validation error", error_type: "validation" } });
+
+    await expect(provider.chatModel("test-model").doGenerate({
+      inputFormat: "messages",
+      mode: { type: "regular" },
+      prompt,
+    })).rejects.toMatchObject({ name: "AI_APICallError", statusCode: 422, message: "Input validation error" });
+  });
+
+  it("should not load pipelines when preloading remote models", async () => {
+    await provider.preload("test-model", { runInference: true });
+
+    expect(pipeline).not.toHaveBeenCalled();
+  });
+});
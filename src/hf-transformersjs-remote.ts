@@ -0,0 +1,72 @@
+import { LanguageModelV1Prompt } from '@ai-sdk/provider';
+import { createJsonErrorResponseHandler, FetchFunction } from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+import { convertToHFTransformersjsChatMessages } from './convert-to-hf-transformersjs-chat-messages';
+
+/**
+ * Connection to an OpenAI-compatible inference server: the Hugging Face Inference API, a
+ * Text Generation Inference (TGI) or Text Embeddings Inference (TEI) server.
+ */
+export type HFTransformersjsRemoteConfig = {
+  provider: string;
+
+  /**
+   * Base URL of the OpenAI-compatible API, e.g. `https://router.huggingface.co/v1` or
+   * `http://localhost:8080/v1`.
+   */
+  baseURL: string;
+
+  headers: () => Record<string, string | undefined>;
+
+  fetch?: FetchFunction;
+};
+
+// OpenAI servers nest the error, TGI and TEI send it as a string
+const remoteErrorSchema = z.object({
+  error: z.union([
+    z.string(),
+    z.object({
+      message: z.string(),
+      type: z.string().nullish(),
+    }),
+  ]),
+  error_type: z.string().nullish(),
+});
+
+export const remoteFailedResponseHandler = createJsonErrorResponseHandler({
+  errorSchema: remoteErrorSchema,
+  errorToMessage: data => (typeof data.error === 'string' ? data.error : data.error.message),
+});
+
+export const remoteUsageSchema = z.object({
+  prompt_tokens: z.number().nullish(),
+  completion_tokens: z.number().nullish(),
+}).nullish();
+
+export function getRemoteUsage(usage: z.infer<typeof remoteUsageSchema>): {
+  promptTokens: number;
+  completionTokens: number;
+} {
+  return {
+    promptTokens: usage?.prompt_tokens ?? NaN,
+    completionTokens: usage?.completion_tokens ?? NaN,
+  };
+}
+
+/**
+ * Converts an AI SDK prompt into the messages of an OpenAI chat completions request.
+ */
+export function convertToRemoteChatMessages(prompt: LanguageModelV1Prompt) {
+  return convertToHFTransformersjsChatMessages(prompt).map(message => ({
+    ...message,
+    // chat templates take the arguments as objects, the API as JSON strings:
+    ...(message.tool_calls != null
+      ? {
+          tool_calls: message.tool_calls.map(toolCall => ({
+            ...toolCall,
+            function: { name: toolCall.function.name, arguments: JSON.stringify(toolCall.function.arguments) },
+          })),
+        }
+      : {}),
+  }));
+}
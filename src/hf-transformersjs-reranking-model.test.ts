@@ -0,0 +1,95 @@
+// @ts-nocheck
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { HFTransformersjsRerankingModel } from "./hf-transformersjs-reranking-model";
+import { pipeline } from "@huggingface/transformers";
+
+vi.mock("@huggingface/transformers", () => {
+  return {
+    pipeline: vi.fn(),
+  };
+});
+
+describe("HFTransformersjsRerankingModel", () => {
+  let mockPipeline;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    // Scores a document by the number of words it shares with the query
+    mockPipeline = {
+      tokenizer: vi.fn((queries, { text_pair }) => ({
+        queries,
+        documents: text_pair,
+        attention_mask: {
+          tolist: () => text_pair.map((document, index) =>
+            `${queries[index]} ${document}`.split(" ").map(() => 1n)),
+        },
+      })),
+      model: vi.fn(async ({ queries, documents }) => ({
+        logits: {
+          tolist: () => documents.map((document, index) => {
+            const words = queries[index].split(" ");
+            return [document.split(" ").filter(word => words.includes(word)).length - 1];
+          }),
+        },
+      })),
+    };
+    (pipeline as any).mockResolvedValue(mockPipeline);
+  });
+
+  it("should return the documents from the most to the least relevant with their indices", async () => {
+    const model = new HFTransformersjsRerankingModel("reranker", {}, { provider: "hf-test" });
+
+    const result = await model.doRerank({
+      query: "red apple pie",
+      documents: ["green pear", "apple pie recipe", "red apple"],
+    });
+
+    expect(pipeline).toHaveBeenCalledWith("text-classification", "reranker", expect.anything());
+    expect(result.ranking.map(({ index }) => index)).toEqual([1, 2, 0]);
+    expect(result.ranking[0].relevanceScore).toBeCloseTo(1 / (1 + Math.exp(-1)));
+    expect(result.ranking[2].relevanceScore).toBeCloseTo(1 / (1 + Math.exp(1)));
+    expect(result.usage).toEqual({ tokens: 16 });
+  });
+
+  it("should score the pairs in batches of similar length and return the top k", async () => {
+    const model = new HFTransformersjsRerankingModel("reranker", { batchSize: 2, topK: 1 }, { provider: "hf-test" });
+
+    const result = await model.doRerank({
+      query: "red apple",
+      documents: ["a red apple tree", "red", "apple"],
+    });
+
+    expect(mockPipeline.model.mock.calls.map(([inputs]) => inputs.documents)).toEqual([
+      ["red", "apple"],
+      ["a red apple tree"],
+    ]);
+    expect(result.ranking).toEqual([{ index: 0, relevanceScore: expect.any(Number) }]);
+    expect((await model.doRerank({ query: "red", documents: ["red", "blue"], topK: 2 })).ranking).toHaveLength(2);
+  });
+
+  it("should use the probability of the relevant label of two-label models", async () => {
+    mockPipeline.model.mockResolvedValue({ logits: { tolist: () => [[0, Math.log(3)]] } });
+    const model = new HFTransformersjsRerankingModel("reranker", {}, { provider: "hf-test" });
+
+    const result = await model.doRerank({ query: "red", documents: ["red"] });
+
+    expect(result.ranking[0].relevanceScore).toBeCloseTo(0.75);
+  });
+
+  it("should stop between batches when the abort signal fires", async () => {
+    const controller = new AbortController();
+    mockPipeline.model.mockImplementation(async ({ documents }) => {
+      controller.abort();
+      return { logits: { tolist: () => documents.map(() => [0]) } };
+    });
+    const model = new HFTransformersjsRerankingModel("reranker", { batchSize: 1 }, { provider: "hf-test" });
+
+    await expect(model.doRerank({
+      query: "red",
+      documents: ["red", "blue"],
+      abortSignal: controller.signal,
+    })).rejects.toMatchObject({ name: "AbortError" });
+    expect(mockPipeline.model).toHaveBeenCalledTimes(1);
+  });
+});
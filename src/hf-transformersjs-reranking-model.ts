@@ -0,0 +1,161 @@
+import { PreTrainedTokenizer, Tensor } from '@huggingface/transformers';
+import { throwIfAborted } from './hf-transformersjs-abort';
+import {
+  getPipelineOptions,
+  HFTransformersjsRerankingSettings,
+  parseRerankingSettings,
+} from './hf-transformersjs-settings';
+import { HFTransformersjsModelConfig, HFTransformersjsWarmupOptions } from './hf-transformersjs-model-config';
+import { createPipelineRegistry, HFTransformersjsPipelineRegistry } from './hf-transformersjs-pipeline-registry';
+import { createProgressListener } from './hf-transformersjs-progress';
+
+// The parts of the text-classification pipeline that score query-document pairs. The pipeline
+// itself classifies single texts only
+type RerankingPipeline = {
+  tokenizer: PreTrainedTokenizer;
+  model: (inputs: Record<string, Tensor>) => Promise<{ logits: Tensor }>;
+};
+
+/**
+ * Reranks documents by their relevance to a query with a cross-encoder, e.g. a ms-marco MiniLM or
+ * bge-reranker model. Always runs locally, also for providers with a `baseURL`.
+ */
+export class HFTransformersjsRerankingModel {
+  readonly modelId: string;
+  readonly settings: HFTransformersjsRerankingSettings;
+  readonly provider: string;
+
+  private readonly config: HFTransformersjsModelConfig;
+  private readonly pipelineRegistry: HFTransformersjsPipelineRegistry;
+
+  constructor(modelId: string, settings: HFTransformersjsRerankingSettings, config: HFTransformersjsModelConfig) {
+    this.modelId = modelId;
+    this.settings = parseRerankingSettings(settings);
+    this.config = config;
+    this.pipelineRegistry = config.pipelineRegistry ?? createPipelineRegistry();
+    this.provider = config.provider;
+  }
+
+  // Pipelines are shared through the registry and have to be released once the call is done
+  private acquirePipeline(
+      abortSignal?: AbortSignal,
+      onProgress?: HFTransformersjsWarmupOptions['onProgress'],
+  ) {
+    return this.pipelineRegistry.acquire<RerankingPipeline>({
+      task: 'text-classification',
+      modelId: this.modelId,
+      options: getPipelineOptions(this.settings),
+      abortSignal,
+      onProgress: createProgressListener(this.modelId, [
+        this.config.onProgress,
+        this.settings.onProgress,
+        onProgress,
+      ]),
+    });
+  }
+
+  /**
+   * Loads the model ahead of the first call, so that calls do not wait for the download.
+   */
+  async warmup({ runInference = false, onProgress, abortSignal }: HFTransformersjsWarmupOptions = {}): Promise<void> {
+    const { pipeline: reranker, release } = await this.acquirePipeline(abortSignal, onProgress);
+    try {
+      if (runInference) {
+        await this.scorePairs(reranker, 'Hello', ['Hello']);
+      }
+    } finally {
+      release();
+    }
+  }
+
+  // Relevance scores of the documents for the query, and the number of tokens of the pairs
+  private async scorePairs(
+      reranker: RerankingPipeline,
+      query: string,
+      documents: string[],
+  ): Promise<{ scores: number[]; tokens: number }> {
+    const inputs = reranker.tokenizer(documents.map(() => query), {
+      text_pair: documents,
+      padding: true,
+      truncation: true,
+    }) as Record<string, Tensor>;
+    const { logits } = await reranker.model(inputs);
+
+    const attentionMask = inputs.attention_mask.tolist() as Array<Array<number | bigint>>;
+    return {
+      scores: (logits.tolist() as number[][]).map(getRelevanceScore),
+      tokens: attentionMask.reduce((sum, row) => sum + row.reduce<number>((count, value) => count + Number(value), 0), 0),
+    };
+  }
+
+  /**
+   * Scores every document for the query and returns them from the most to the least relevant,
+   * with their index in `documents`.
+   */
+  async doRerank({
+    query,
+    documents,
+    topK = this.settings.topK,
+    abortSignal,
+  }: {
+    query: string;
+    documents: string[];
+
+    /**
+     * Number of documents to return. Defaults to the `topK` setting, or all documents.
+     */
+    topK?: number;
+    abortSignal?: AbortSignal;
+  }): Promise<{
+    ranking: Array<{ index: number; relevanceScore: number }>;
+    usage: { tokens: number };
+  }> {
+    if (documents.length === 0) {
+      return { ranking: [], usage: { tokens: 0 } };
+    }
+
+    const { pipeline: reranker, release } = await this.acquirePipeline(abortSignal);
+    const batchSize = this.settings.batchSize ?? 32;
+    const scores: number[] = new Array(documents.length);
+    let tokens = 0;
+
+    try {
+      // Documents of similar length share a batch, which keeps the padding small
+      const order = documents.map((_, index) => index).sort((a, b) => documents[a].length - documents[b].length);
+
+      for (let start = 0; start < order.length; start += batchSize) {
+        // Stop between batches; a single forward pass cannot be interrupted
+        throwIfAborted(abortSignal);
+
+        const batch = order.slice(start, start + batchSize);
+        const result = await this.scorePairs(reranker, query, batch.map(index => documents[index]));
+        batch.forEach((index, position) => {
+          scores[index] = result.scores[position];
+        });
+        tokens += result.tokens;
+      }
+      throwIfAborted(abortSignal);
+    } finally {
+      release();
+    }
+
+    const ranking = scores
+      .map((relevanceScore, index) => ({ index, relevanceScore }))
+      .sort((a, b) => b.relevanceScore - a.relevanceScore);
+
+    return {
+      ranking: topK != null ? ranking.slice(0, topK) : ranking,
+      usage: { tokens },
+    };
+  }
+}
+
+// Cross-encoders either output a single relevance logit, or the logits of not relevant and relevant
+function getRelevanceScore(logits: number[]): number {
+  if (logits.length === 1) {
+    return 1 / (1 + Math.exp(-logits[0]));
+  }
+  const max = Math.max(...logits);
+  const exps = logits.map(logit => Math.exp(logit - max));
+  return exps[exps.length - 1] / exps.reduce((sum, value) => sum + value, 0);
+}
@@ -0,0 +1,184 @@
+// @ts-nocheck
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createHFTransformersjsServer } from "./hf-transformersjs-server";
+import { createHFTransformersjs } from "./hf-transformersjs-provider";
+import { HFTransformersjsChatLanguageModelOpenAICompatible } from "./hf-transformersjs-chat-language-model-openai-compatible";
+import { pipeline } from "@huggingface/transformers";
+
+vi.mock("@huggingface/transformers", () => {
+  return {
+    pipeline: vi.fn(),
+    TextStreamer: class {
+      constructor(tokenizer, options) {
+        this.callback_function = options.callback_function;
+      }
+    },
+  };
+});
+
+describe("createHFTransformersjsServer", () => {
+  let server;
+  let baseURL;
+  let generatePipeline;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    generatePipeline = vi.fn().mockImplementation(async (prompt, options) => {
+      for (const token of ["Hello", " world"]) {
+        options.streamer?.callback_function(token);
+      }
+      return [{ generated_text: "Hello world" }];
+    });
+    generatePipeline.tokenizer = {
+      chat_template: "{{ messages }}",
+      apply_chat_template: (messages, options) =>
+          messages.map(message => `<${message.role}>${message.content}`).join("")
+          + (options.add_generation_prompt ? "<assistant>" : ""),
+      // one token per word
+      encode: text => text.split(/\s+/).filter(Boolean).map((_, index) => index),
+    };
+
+    // Returns one embedding per input, holding the input length
+    const extractPipeline = vi.fn().mockImplementation(async inputs => ({
+      tolist: () => inputs.map(input => [input.length, 1]),
+    }));
+    extractPipeline.tokenizer = {
+      encode: text => [101, ...text.split(" ").map((_, index) => index), 102],
+    };
+
+    (pipeline as any).mockImplementation(async task => task === "feature-extraction" ? extractPipeline : generatePipeline);
+
+    server = createHFTransformersjsServer(createHFTransformersjs({ name: "hf-test" }), { models: ["test-model"] });
+    await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseURL = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const post = (path, body) => fetch(`${baseURL}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  it("should answer chat completions with OpenAI responses", async () => {
+    const response = await post("/v1/chat/completions", {
+      model: "test-model",
+      messages: [{ role: "system", content: "Be brief." }, { role: "user", content: "Hi" }],
+      max_tokens: 10,
+    });
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body).toMatchObject({
+      object: "chat.completion",
+      model: "test-model",
+      choices: [{ message: { role: "assistant", content: "Hello world" } }],
+      usage: { prompt_tokens: 2, completion_tokens: 2, total_tokens: 4 },
+    });
+    expect(generatePipeline).toHaveBeenCalledWith(
+        "<system>Be brief.<user>Hi<assistant>",
+        expect.objectContaining({ max_new_tokens: 10 }),
+    );
+  });
+
+  it("should pass only the validated request parameters to the model", async () => {
+    const doGenerate = vi.spyOn(HFTransformersjsChatLanguageModelOpenAICompatible.prototype, "doGenerate");
+
+    await post("/v1/chat/completions", {
+      model: "test-model",
+      messages: [{ role: "user", content: "Hi" }],
+      max_tokens: 10,
+      user: "someone",
+    });
+
+    expect(doGenerate.mock.calls[0][0].providerMetadata).toEqual({ openaiCompatible: { max_tokens: 10 } });
+    doGenerate.mockRestore();
+  });
+
+  it("should stream chat completion chunks as server-sent events", async () => {
+    const response = await post("/v1/chat/completions", {
+      model: "test-model",
+      messages: [{ role: "user", content: "Hi" }],
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+    const events = (await response.text()).split("\n\n").filter(Boolean).map(event => event.replace(/^data: /, ""));
+    expect(events.at(-1)).toBe("[DONE]");
+
+    const chunks = events.slice(0, -1).map(event => JSON.parse(event));
+    expect(chunks.every(chunk => chunk.object === "chat.completion.chunk" && chunk.id === chunks[0].id)).toBe(true);
+    expect(chunks.map(chunk => chunk.choices[0]?.delta.content).join("")).toBe("Hello world");
+    expect(chunks.at(-2).choices[0]).toMatchObject({ delta: {}, finish_reason: null });
+    expect(chunks.at(-1)).toMatchObject({ choices: [], usage: { completion_tokens: 2 } });
+  });
+
+  it("should answer and stream completions", async () => {
+    const response = await post("/v1/completions", { model: "test-model", prompt: "Say hi" });
+    expect(await response.json()).toMatchObject({
+      object: "text_completion",
+      choices: [{ text: "Hello world" }],
+    });
+
+    const streamed = await post("/v1/completions", { model: "test-model", prompt: "Say hi", stream: true });
+    const text = await streamed.text();
+    expect(text).toContain('"text":" world"');
+    expect(text.endsWith("data: [DONE]\n\n")).toBe(true);
+  });
+
+  it("should return embeddings", async () => {
+    const response = await post("/v1/embeddings", { model: "test-model", input: ["a", "bcd"] });
+
+    expect(await response.json()).toEqual({
+      object: "list",
+      data: [
+        { object: "embedding", index: 0, embedding: [1, 1] },
+        { object: "embedding", index: 1, embedding: [3, 1] },
+      ],
+      model: "test-model",
+      usage: { prompt_tokens: 6, total_tokens: 6 },
+    });
+  });
+
+  it("should list the served models and reject others", async () => {
+    const models = await (await fetch(`${baseURL}/v1/models`)).json();
+    expect(models.data.map(model => model.id)).toEqual(["test-model"]);
+
+    const response = await post("/v1/chat/completions", { model: "other", messages: [{ role: "user", content: "Hi" }] });
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.code).toBe("model_not_found");
+  });
+
+  it("should reject request bodies beyond the size limit", async () => {
+    const limitedServer = createHFTransformersjsServer(createHFTransformersjs({ name: "hf-test" }), { maxBodyBytes: 100 });
+    await new Promise(resolve => limitedServer.listen(0, "127.0.0.1", resolve));
+    const url = `http://127.0.0.1:${limitedServer.address().port}/v1/chat/completions`;
+    const body = JSON.stringify({ model: "test-model", messages: [{ role: "user", content: "Hi".repeat(100) }] });
+
+    try {
+      const response = await fetch(url, { method: "POST", body });
+      expect(response.status).toBe(413);
+      expect((await response.json()).error).toMatchObject({ type: "invalid_request_error" });
+
+      // without a content length the body is measured while it is read
+      const chunked = await fetch(url, { method: "POST", body: new Blob([body]).stream(), duplex: "half" });
+      expect(chunked.status).toBe(413);
+      expect(generatePipeline).not.toHaveBeenCalled();
+    } finally {
+      await new Promise(resolve => limitedServer.close(resolve));
+    }
+  });
+
+  it("should report invalid requests as OpenAI errors", async () => {
+    const response = await post("/v1/chat/completions", { model: "test-model" });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatchObject({ type: "invalid_request_error" });
+    expect((await fetch(`${baseURL}/v1/unknown`)).status).toBe(404);
+  });
+});
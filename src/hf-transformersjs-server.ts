@@ -0,0 +1,428 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import {
+  InvalidPromptError,
+  LanguageModelV1CallOptions,
+  LanguageModelV1ProviderMetadata,
+  LanguageModelV1StreamPart,
+  TooManyEmbeddingValuesForCallError,
+  TypeValidationError,
+  UnsupportedFunctionalityError,
+} from '@ai-sdk/provider';
+import { validateTypes } from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+import { HFTransformersjsProvider } from './hf-transformersjs-provider';
+import {
+  convertFromOpenAICompatibleChatMessages,
+  OpenAICompatibleChatMessage,
+} from './convert-from-openai-compatible-chat-messages';
+import {
+  createOpenAICompatibleChatCompletionChunk,
+  createOpenAICompatibleTextCompletionChunk,
+  mapToOpenAICompatibleFinishReason,
+  parseOpenAICompatibleParameters,
+} from './hf-transformersjs-openai-compatible';
+
+export interface HFTransformersjsServerSettings {
+  /**
+   * Models that can be requested. Defaults to any model; `/v1/models` then lists the models
+   * requested so far.
+   */
+  models?: string[];
+
+  /**
+   * Largest request body in bytes. Larger requests are answered with 413. Defaults to 4 MiB.
+   */
+  maxBodyBytes?: number;
+}
+
+const streamOptionsSchema = z.object({
+  stream: z.boolean().optional(),
+  stream_options: z.object({ include_usage: z.boolean().optional() }).nullish(),
+});
+
+const chatCompletionRequestSchema = streamOptionsSchema.extend({
+  model: z.string(),
+  messages: z.array(z.custom<OpenAICompatibleChatMessage>(
+    value => typeof value === 'object' && value != null && 'role' in value,
+  )).min(1),
+  tools: z.array(z.object({
+    type: z.literal('function'),
+    function: z.object({
+      name: z.string(),
+      description: z.string().optional(),
+      parameters: z.record(z.unknown()).optional(),
+    }),
+  })).optional(),
+  tool_choice: z.union([
+    z.enum(['auto', 'none', 'required']),
+    z.object({ type: z.literal('function'), function: z.object({ name: z.string() }) }),
+  ]).optional(),
+});
+
+const completionRequestSchema = streamOptionsSchema.extend({
+  model: z.string(),
+  prompt: z.union([z.string(), z.array(z.string()).length(1)]),
+});
+
+const embeddingRequestSchema = z.object({
+  model: z.string(),
+  input: z.union([z.string(), z.array(z.string()).min(1)]),
+});
+
+type ChatCompletionRequest = z.infer<typeof chatCompletionRequestSchema>;
+
+/**
+ * Creates a Node.js HTTP server that serves the models of the provider through the OpenAI API:
+ * `/v1/chat/completions`, `/v1/completions`, `/v1/embeddings` and `/v1/models`. Completions
+ * stream as server-sent events when the request sets `stream`.
+ */
+export function createHFTransformersjsServer(
+    provider: HFTransformersjsProvider,
+    settings: HFTransformersjsServerSettings = {},
+): Server {
+  const requestedModels = new Set<string>();
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname.replace(/\/$/, '');
+
+    if (req.method === 'GET' && path === '/v1/models') {
+      const models = settings.models ?? [...requestedModels];
+      sendJSON(res, 200, {
+        object: 'list',
+        data: models.map(id => ({ id, object: 'model', created: 0, owned_by: 'hf-transformersjs' })),
+      });
+      return;
+    }
+
+    const route = routes[path];
+    if (route == null) {
+      sendJSON(res, 404, getErrorBody(`Unknown route: ${req.method} ${path}`, 'invalid_request_error', 'not_found'));
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendJSON(res, 405, getErrorBody(`Method not allowed: ${req.method} ${path}`, 'invalid_request_error'));
+      return;
+    }
+
+    const maxBodyBytes = settings.maxBodyBytes ?? 4 * 1024 * 1024;
+    const body = await readJSON(req, maxBodyBytes);
+    if (body === tooLarge) {
+      res.setHeader('Connection', 'close');
+      sendJSON(res, 413, getErrorBody(`Request body is larger than ${maxBodyBytes} bytes`, 'invalid_request_error'));
+      return;
+    }
+    if (body === undefined) {
+      sendJSON(res, 400, getErrorBody('Request body is not valid JSON', 'invalid_request_error'));
+      return;
+    }
+
+    // Cancel the generation when the client goes away
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        abortController.abort();
+      }
+    });
+
+    await route(body, res, abortController.signal);
+  }
+
+  const routes: Record<string, (body: unknown, res: ServerResponse, abortSignal: AbortSignal) => Promise<void>> = {
+    '/v1/chat/completions': async (body, res, abortSignal) => {
+      const request = validateTypes({ value: body, schema: chatCompletionRequestSchema });
+      if (!isServedModel(res, request.model)) {
+        return;
+      }
+
+      const model = provider.openAICompatibleChatModel(request.model);
+      const options: LanguageModelV1CallOptions = {
+        inputFormat: 'messages',
+        mode: {
+          type: 'regular',
+          tools: request.tools?.map(tool => ({
+            type: 'function',
+            name: tool.function.name,
+            description: tool.function.description,
+            parameters: tool.function.parameters ?? { type: 'object', properties: {} },
+          })),
+          toolChoice: getToolChoice(request.tool_choice),
+        },
+        prompt: convertFromOpenAICompatibleChatMessages(request.messages),
+        providerMetadata: {
+          openaiCompatible: parseOpenAICompatibleParameters(body) as LanguageModelV1ProviderMetadata[string],
+        },
+        abortSignal,
+      };
+
+      if (!request.stream) {
+        const { rawResponse } = await model.doGenerate(options);
+        sendJSON(res, 200, rawResponse?.body);
+        return;
+      }
+
+      const { stream } = await model.doStream(options);
+      await sendChatCompletionChunks(res, stream, request);
+    },
+
+    '/v1/completions': async (body, res, abortSignal) => {
+      const request = validateTypes({ value: body, schema: completionRequestSchema });
+      if (!isServedModel(res, request.model)) {
+        return;
+      }
+
+      const model = provider.openAICompatibleCompletionModel(request.model);
+      const prompt = typeof request.prompt === 'string' ? request.prompt : request.prompt[0];
+      const options: LanguageModelV1CallOptions = {
+        inputFormat: 'prompt',
+        mode: { type: 'regular' },
+        prompt: [{ role: 'user', content: [{ type: 'text', text: prompt }] }],
+        providerMetadata: {
+          openaiCompatible: parseOpenAICompatibleParameters(body) as LanguageModelV1ProviderMetadata[string],
+        },
+        abortSignal,
+      };
+
+      if (!request.stream) {
+        const { rawResponse } = await model.doGenerate(options);
+        sendJSON(res, 200, rawResponse?.body);
+        return;
+      }
+
+      const { stream } = await model.doStream(options);
+      await sendTextCompletionChunks(res, stream, request);
+    },
+
+    '/v1/embeddings': async (body, res, abortSignal) => {
+      const request = validateTypes({ value: body, schema: embeddingRequestSchema });
+      if (!isServedModel(res, request.model)) {
+        return;
+      }
+
+      const values = typeof request.input === 'string' ? [request.input] : request.input;
+      const { embeddings, usage } = await provider.textEmbeddingModel(request.model).doEmbed({ values, abortSignal });
+      sendJSON(res, 200, {
+        object: 'list',
+        data: embeddings.map((embedding, index) => ({ object: 'embedding', index, embedding })),
+        model: request.model,
+        usage: { prompt_tokens: usage?.tokens ?? 0, total_tokens: usage?.tokens ?? 0 },
+      });
+    },
+  };
+
+  function isServedModel(res: ServerResponse, modelId: string): boolean {
+    if (settings.models != null && !settings.models.includes(modelId)) {
+      sendJSON(res, 404, getErrorBody(`The model ${modelId} does not exist`, 'invalid_request_error', 'model_not_found'));
+      return false;
+    }
+    requestedModels.add(modelId);
+    return true;
+  }
+
+  return createServer((req, res) => {
+    handleRequest(req, res).catch(error => sendError(res, error));
+  });
+}
+
+function getToolChoice(
+    toolChoice: ChatCompletionRequest['tool_choice'],
+): Extract<LanguageModelV1CallOptions['mode'], { type: 'regular' }>['toolChoice'] {
+  if (toolChoice == null) {
+    return undefined;
+  }
+  if (typeof toolChoice === 'string') {
+    return { type: toolChoice };
+  }
+  return { type: 'tool', toolName: toolChoice.function.name };
+}
+
+async function sendChatCompletionChunks(
+    res: ServerResponse,
+    stream: ReadableStream<LanguageModelV1StreamPart>,
+    request: ChatCompletionRequest,
+): Promise<void> {
+  startEventStream(res);
+
+  let id = '';
+  const created = new Date();
+  let toolCallIndex = 0;
+  const chunk = (delta: Parameters<typeof createOpenAICompatibleChatCompletionChunk>[0]['delta'], finishReason?: string | null) =>
+    createOpenAICompatibleChatCompletionChunk({ id, created, modelId: request.model, delta, finishReason });
+
+  for await (const part of readStream(stream)) {
+    switch (part.type) {
+      case 'response-metadata':
+        id = part.id ?? id;
+        sendEvent(res, chunk({ role: 'assistant', content: '' }));
+        break;
+
+      case 'text-delta':
+        sendEvent(res, chunk({ content: part.textDelta }));
+        break;
+
+      case 'tool-call':
+        sendEvent(res, chunk({
+          tool_calls: [{
+            index: toolCallIndex++,
+            id: part.toolCallId,
+            type: 'function',
+            function: { name: part.toolName, arguments: part.args },
+          }],
+        }));
+        break;
+
+      case 'finish':
+        sendEvent(res, chunk({}, mapToOpenAICompatibleFinishReason(part.finishReason)));
+        if (request.stream_options?.include_usage) {
+          sendEvent(res, createOpenAICompatibleChatCompletionChunk({
+            id,
+            created,
+            modelId: request.model,
+            delta: {},
+            usage: part.usage,
+          }));
+        }
+        break;
+
+      case 'error':
+        sendEvent(res, getErrorBody(getErrorMessage(part.error), 'server_error'));
+        break;
+    }
+  }
+
+  endEventStream(res);
+}
+
+async function sendTextCompletionChunks(
+    res: ServerResponse,
+    stream: ReadableStream<LanguageModelV1StreamPart>,
+    request: z.infer<typeof completionRequestSchema>,
+): Promise<void> {
+  startEventStream(res);
+
+  let id = '';
+  const created = new Date();
+  const chunk = (text: string, finishReason?: string | null) =>
+    createOpenAICompatibleTextCompletionChunk({ id, created, modelId: request.model, text, finishReason });
+
+  for await (const part of readStream(stream)) {
+    switch (part.type) {
+      case 'response-metadata':
+        id = part.id ?? id;
+        break;
+
+      case 'text-delta':
+        sendEvent(res, chunk(part.textDelta));
+        break;
+
+      case 'finish':
+        sendEvent(res, chunk('', mapToOpenAICompatibleFinishReason(part.finishReason)));
+        if (request.stream_options?.include_usage) {
+          sendEvent(res, createOpenAICompatibleTextCompletionChunk({
+            id,
+            created,
+            modelId: request.model,
+            text: '',
+            usage: part.usage,
+          }));
+        }
+        break;
+
+      case 'error':
+        sendEvent(res, getErrorBody(getErrorMessage(part.error), 'server_error'));
+        break;
+    }
+  }
+
+  endEventStream(res);
+}
+
+async function* readStream<T>(stream: ReadableStream<T>): AsyncGenerator<T> {
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function startEventStream(res: ServerResponse): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+}
+
+function sendEvent(res: ServerResponse, data: unknown): void {
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+function endEventStream(res: ServerResponse): void {
+  res.end('data: [DONE]\n\n');
+}
+
+function sendJSON(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// Invalid requests are reported as client errors, everything else as server errors
+function sendError(res: ServerResponse, error: unknown): void {
+  const isInvalidRequest = TypeValidationError.isInstance(error)
+    || InvalidPromptError.isInstance(error)
+    || UnsupportedFunctionalityError.isInstance(error)
+    || TooManyEmbeddingValuesForCallError.isInstance(error);
+  const body = getErrorBody(getErrorMessage(error), isInvalidRequest ? 'invalid_request_error' : 'server_error');
+
+  if (res.headersSent) {
+    // the event stream has started, the error can only be reported as an event
+    if (!res.writableEnded) {
+      sendEvent(res, body);
+      endEventStream(res);
+    }
+    return;
+  }
+  sendJSON(res, isInvalidRequest ? 400 : 500, body);
+}
+
+function getErrorBody(message: string, type: string, code: string | null = null) {
+  return { error: { message, type, param: null, code } };
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+const tooLarge = Symbol('tooLarge');
+
+// The parsed body, undefined if it is not valid JSON. The rest of a body beyond the limit is read
+// without being kept, so that the client receives the response
+async function readJSON(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  if (Number(req.headers['content-length'] ?? 0) > maxBytes) {
+    req.resume();
+    return tooLarge;
+  }
+
+  const chunks: Buffer[] = [];
+  let bytes = 0;
+  for await (const chunk of req) {
+    bytes += (chunk as Buffer).length;
+    if (bytes <= maxBytes) {
+      chunks.push(chunk as Buffer);
+    }
+  }
+  if (bytes > maxBytes) {
+    return tooLarge;
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,364 @@
+import { LanguageModelV1CallOptions } from '@ai-sdk/provider';
+import { validateTypes } from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+import { HFTransformersjsToolCallFormat } from './parse-hf-transformersjs-tool-calls';
+import { HFTransformersjsProgressListener } from './hf-transformersjs-progress';
+
+/**
+ * Data types of the model weights that transformers.js can load.
+ */
+export type HFTransformersjsDataType =
+  | 'auto'
+  | 'fp32'
+  | 'fp16'
+  | 'q8'
+  | 'int8'
+  | 'uint8'
+  | 'q4'
+  | 'bnb4'
+  | 'q4f16';
+
+/**
+ * Devices that transformers.js can run a model on.
+ */
+export type HFTransformersjsDevice =
+  | 'auto'
+  | 'gpu'
+  | 'cpu'
+  | 'wasm'
+  | 'webgpu'
+  | 'cuda'
+  | 'dml'
+  | 'webnn'
+  | 'webnn-npu'
+  | 'webnn-gpu'
+  | 'webnn-cpu';
+
+/**
+ * Settings used when loading the pipeline of a model.
+ */
+export interface HFTransformersjsPipelineSettings {
+  /**
+   * Data type of the weights, either for the whole model or per model file
+   * (e.g. `{ encoder_model: 'fp32', decoder_model_merged: 'q4' }`).
+   */
+  dtype?: HFTransformersjsDataType | Record<string, HFTransformersjsDataType>;
+
+  /**
+   * Device to run the model on, either for the whole model or per model file.
+   */
+  device?: HFTransformersjsDevice | Record<string, HFTransformersjsDevice>;
+
+  /**
+   * Branch, tag or commit of the model repository. Defaults to `main`.
+   */
+  revision?: string;
+
+  /**
+   * Receives the loading progress of the model.
+   */
+  onProgress?: HFTransformersjsProgressListener;
+}
+
+/**
+ * Default generation parameters. Call options take precedence over them.
+ */
+export interface HFTransformersjsGenerationSettings {
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  seed?: number;
+  stopSequences?: string[];
+}
+
+export interface HFTransformersjsChatSettings
+  extends HFTransformersjsPipelineSettings, HFTransformersjsGenerationSettings {
+  /**
+   * Chat template to use instead of the one shipped with the tokenizer.
+   */
+  chatTemplate?: string;
+
+  /**
+   * Chat template to use when the tokenizer has none. Defaults to ChatML.
+   */
+  fallbackChatTemplate?: string;
+
+  /**
+   * Format of the tool calls the model writes. Defaults to detecting it from the output.
+   */
+  toolCallFormat?: HFTransformersjsToolCallFormat;
+}
+
+export interface HFTransformersjsCompletionSettings
+  extends HFTransformersjsPipelineSettings, HFTransformersjsGenerationSettings {}
+
+/**
+ * How the token vectors of an input are combined into its embedding.
+ */
+export type HFTransformersjsPooling = 'mean' | 'cls' | 'last' | 'none';
+
+export interface HFTransformersjsEmbeddingSettings extends HFTransformersjsPipelineSettings {
+  /**
+   * Pooling of the token vectors: their mean, the first (CLS) or the last token, or `none` for
+   * models that pool themselves and output a single vector per input. Defaults to `mean`.
+   */
+  pooling?: HFTransformersjsPooling;
+
+  /**
+   * Scale the embeddings to unit length, as cosine similarity with e5, bge and gte models expects.
+   */
+  normalize?: boolean;
+
+  /**
+   * Truncate the embeddings to this many dimensions, for models trained with Matryoshka
+   * representation learning. Normalization applies to the truncated embeddings.
+   */
+  dimensions?: number;
+
+  /**
+   * Number of inputs to embed in one forward pass. Defaults to 32.
+   */
+  batchSize?: number;
+
+  /**
+   * Whether the values are search queries or the documents to search, for models that embed them
+   * with different prefixes, like e5 (`query: ` / `passage: `), bge and nomic-embed. The prefixes
+   * of known model families are added unless `prefixes` overrides them.
+   */
+  inputType?: 'query' | 'document';
+
+  /**
+   * Prefixes of queries and documents, or templates with a `{text}` placeholder.
+   */
+  prefixes?: {
+    query?: string;
+    document?: string;
+  };
+
+  /**
+   * What to do with values that are longer than the model accepts: reject them, or drop their end
+   * or start. Defaults to `truncate-end`. Ignored in chunk mode.
+   */
+  truncation?: 'error' | 'truncate-end' | 'truncate-start';
+
+  /**
+   * Embed long values in chunks instead of truncating them: the value is split into overlapping
+   * windows of tokens and the embeddings of the windows are pooled into one embedding.
+   */
+  chunk?: {
+    /**
+     * Tokens per chunk. Defaults to the most the model accepts.
+     */
+    size?: number;
+
+    /**
+     * Tokens shared by consecutive chunks. Defaults to a tenth of the chunk size.
+     */
+    overlap?: number;
+
+    /**
+     * Pooling of the chunk embeddings. Defaults to `mean`.
+     */
+    pooling?: 'mean' | 'max';
+  };
+
+  /**
+   * What to do with values that cannot be embedded. `throw` (default) rejects the call with an
+   * `HFTransformersjsEmbeddingError`. `skip` returns an empty embedding for them, to keep the
+   * embeddings aligned with the values, and lists their errors in
+   * `providerMetadata.hfTransformersjs.errors`. Callers must leave out the values at the indices of
+   * these errors before storing the embeddings. A batch that fails is retried one value at a time,
+   * so that only the values that fail are skipped.
+   */
+  onError?: 'skip' | 'throw';
+}
+
+export interface HFTransformersjsRerankingSettings extends HFTransformersjsPipelineSettings {
+  /**
+   * Number of query-document pairs to score in one forward pass. Defaults to 32.
+   */
+  batchSize?: number;
+
+  /**
+   * Number of documents to return, the most relevant first. Defaults to all documents.
+   */
+  topK?: number;
+}
+
+export interface HFTransformersjsTranscriptionSettings extends HFTransformersjsPipelineSettings {
+  /**
+   * Language of the audio, e.g. `en` or `german`. Multilingual Whisper models detect it when it
+   * is not set.
+   */
+  language?: string;
+
+  /**
+   * Transcribe the audio, or translate it to English. Defaults to `transcribe`.
+   */
+  task?: 'transcribe' | 'translate';
+
+  /**
+   * Timestamps of the segments, or of every word. Word timestamps need a model exported with
+   * cross-attention outputs. Defaults to `segment`.
+   */
+  timestamps?: 'segment' | 'word';
+
+  /**
+   * Length in seconds of the windows that long audio is transcribed in. Defaults to 30.
+   */
+  chunkLength?: number;
+
+  /**
+   * Sample rate of PCM audio. WAV files carry their own. Defaults to the rate of the model.
+   */
+  sampleRate?: number;
+}
+
+const dataTypeSchema = z.enum(['auto', 'fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16']);
+
+const deviceSchema = z.enum([
+  'auto',
+  'gpu',
+  'cpu',
+  'wasm',
+  'webgpu',
+  'cuda',
+  'dml',
+  'webnn',
+  'webnn-npu',
+  'webnn-gpu',
+  'webnn-cpu',
+]);
+
+const pipelineSettingsSchema = z.object({
+  dtype: z.union([dataTypeSchema, z.record(dataTypeSchema)]).optional(),
+  device: z.union([deviceSchema, z.record(deviceSchema)]).optional(),
+  revision: z.string().optional(),
+  onProgress: z.custom<HFTransformersjsProgressListener>(value => typeof value === 'function').optional(),
+});
+
+const generationSettingsSchema = z.object({
+  maxTokens: z.number().int().positive().optional(),
+  temperature: z.number().min(0).optional(),
+  topP: z.number().min(0).max(1).optional(),
+  topK: z.number().int().positive().optional(),
+  presencePenalty: z.number().optional(),
+  frequencyPenalty: z.number().optional(),
+  seed: z.number().int().optional(),
+  stopSequences: z.array(z.string()).optional(),
+});
+
+const chatSettingsSchema = pipelineSettingsSchema
+  .merge(generationSettingsSchema)
+  .extend({
+    chatTemplate: z.string().optional(),
+    fallbackChatTemplate: z.string().optional(),
+    toolCallFormat: z.enum(['auto', 'hermes', 'llama3', 'qwen']).optional(),
+  });
+
+const completionSettingsSchema = pipelineSettingsSchema.merge(generationSettingsSchema);
+
+const embeddingSettingsSchema = pipelineSettingsSchema.extend({
+  pooling: z.enum(['mean', 'cls', 'last', 'none']).optional(),
+  normalize: z.boolean().optional(),
+  dimensions: z.number().int().positive().optional(),
+  batchSize: z.number().int().positive().optional(),
+  onError: z.enum(['skip', 'throw']).optional(),
+  inputType: z.enum(['query', 'document']).optional(),
+  prefixes: z.object({
+    query: z.string().optional(),
+    document: z.string().optional(),
+  }).optional(),
+  truncation: z.enum(['error', 'truncate-end', 'truncate-start']).optional(),
+  chunk: z.object({
+    size: z.number().int().positive().optional(),
+    overlap: z.number().int().nonnegative().optional(),
+    pooling: z.enum(['mean', 'max']).optional(),
+  }).optional(),
+});
+
+const rerankingSettingsSchema = pipelineSettingsSchema.extend({
+  batchSize: z.number().int().positive().optional(),
+  topK: z.number().int().positive().optional(),
+});
+
+const transcriptionSettingsSchema = pipelineSettingsSchema.extend({
+  language: z.string().optional(),
+  task: z.enum(['transcribe', 'translate']).optional(),
+  timestamps: z.enum(['segment', 'word']).optional(),
+  chunkLength: z.number().positive().optional(),
+  sampleRate: z.number().int().positive().optional(),
+});
+
+/**
+ * Validates chat model settings, throwing a `TypeValidationError` when they are invalid.
+ */
+export function parseChatSettings(settings: unknown = {}): HFTransformersjsChatSettings {
+  return validateTypes({ value: settings, schema: chatSettingsSchema });
+}
+
+/**
+ * Validates completion model settings, throwing a `TypeValidationError` when they are invalid.
+ */
+export function parseCompletionSettings(settings: unknown = {}): HFTransformersjsCompletionSettings {
+  return validateTypes({ value: settings, schema: completionSettingsSchema });
+}
+
+/**
+ * Validates embedding model settings, throwing a `TypeValidationError` when they are invalid.
+ */
+export function parseEmbeddingSettings(settings: unknown = {}): HFTransformersjsEmbeddingSettings {
+  return validateTypes({ value: settings, schema: embeddingSettingsSchema });
+}
+
+/**
+ * Validates reranking model settings, throwing a `TypeValidationError` when they are invalid.
+ */
+export function parseRerankingSettings(settings: unknown = {}): HFTransformersjsRerankingSettings {
+  return validateTypes({ value: settings, schema: rerankingSettingsSchema });
+}
+
+/**
+ * Validates transcription model settings, throwing a `TypeValidationError` when they are invalid.
+ */
+export function parseTranscriptionSettings(settings: unknown = {}): HFTransformersjsTranscriptionSettings {
+  return validateTypes({ value: settings, schema: transcriptionSettingsSchema });
+}
+
+/**
+ * Options for `pipeline()` from the model settings.
+ */
+export function getPipelineOptions(settings: HFTransformersjsPipelineSettings): {
+  dtype?: HFTransformersjsPipelineSettings['dtype'];
+  device?: HFTransformersjsPipelineSettings['device'];
+  revision: string;
+} {
+  return {
+    dtype: settings.dtype,
+    device: settings.device,
+    revision: settings.revision ?? 'main',
+  };
+}
+
+/**
+ * Fills the generation parameters a call leaves unset with the defaults from the model settings.
+ */
+export function applyGenerationSettings(
+  options: LanguageModelV1CallOptions,
+  settings: HFTransformersjsGenerationSettings,
+): LanguageModelV1CallOptions {
+  return {
+    ...options,
+    maxTokens: options.maxTokens ?? settings.maxTokens,
+    temperature: options.temperature ?? settings.temperature,
+    topP: options.topP ?? settings.topP,
+    topK: options.topK ?? settings.topK,
+    presencePenalty: options.presencePenalty ?? settings.presencePenalty,
+    frequencyPenalty: options.frequencyPenalty ?? settings.frequencyPenalty,
+    seed: options.seed ?? settings.seed,
+    stopSequences: options.stopSequences ?? settings.stopSequences,
+  };
+}
@@ -0,0 +1,54 @@
+// @ts-nocheck
+import { describe, it, expect } from "vitest";
+import {
+  createStopSequencesFilter,
+  createStopSequencesStoppingCriterion,
+  trimAtStopSequence,
+} from "./hf-transformersjs-stop-sequences";
+
+function filter(stopSequences, chunks) {
+  const emitted = [];
+  const stopSequencesFilter = createStopSequencesFilter(stopSequences, text => emitted.push(text));
+  chunks.forEach(chunk => stopSequencesFilter.push(chunk));
+  stopSequencesFilter.flush();
+  return emitted;
+}
+
+describe("createStopSequencesFilter", () => {
+  it("should pass text through without stop sequences", () => {
+    expect(filter(undefined, ["a", "b"])).toEqual(["a", "b"]);
+  });
+
+  it("should hold back a possible stop sequence until it is resolved", () => {
+    expect(filter(["</answer>"], ["42<", "/an", "swer>", " ignored"])).toEqual(["42"]);
+    expect(filter(["</answer>"], ["1 <", " 2"])).toEqual(["1 ", "< 2"]);
+  });
+
+  it("should stop at the earliest of several stop sequences", () => {
+    expect(filter(["END", "\n\n"], ["one\n", "\ntwo END"])).toEqual(["one"]);
+  });
+
+  it("should emit held back text when generation ends", () => {
+    expect(filter(["</answer>"], ["done </ans"])).toEqual(["done ", "</ans"]);
+  });
+});
+
+describe("trimAtStopSequence", () => {
+  it("should cut the text before the first stop sequence", () => {
+    expect(trimAtStopSequence("a STOP b STOP", ["STOP"])).toBe("a ");
+    expect(trimAtStopSequence("no stop", ["STOP"])).toBe("no stop");
+    expect(trimAtStopSequence("no stop", undefined)).toBe("no stop");
+  });
+});
+
+describe("createStopSequencesStoppingCriterion", () => {
+  it("should only look at the generated text", () => {
+    const tokenizer = { decode: (ids) => ids.map(id => "ab."[id]).join("") };
+    const criterion = createStopSequencesStoppingCriterion({ tokenizer: tokenizer, stopSequences: ["."] });
+
+    // the prompt "a." already contains the stop sequence:
+    expect(criterion([[0n, 2n, 1n]])).toEqual([false]);
+    expect(criterion([[0n, 2n, 1n, 0n]])).toEqual([false]);
+    expect(criterion([[0n, 2n, 1n, 0n, 2n]])).toEqual([true]);
+  });
+});
@@ -0,0 +1,138 @@
+import { PreTrainedTokenizer } from "@huggingface/transformers";
+
+/**
+ * A stopping criterion as called by transformers.js after every decoding step: it receives the
+ * token ids of every sequence in the batch (prompt included) and returns which ones are done.
+ */
+export type HFTransformersjsStoppingCriterion = (inputIds: bigint[][]) => boolean[];
+
+/**
+ * Stops generation as soon as the generated text of a sequence contains one of the stop sequences.
+ */
+export function createStopSequencesStoppingCriterion({
+  tokenizer,
+  stopSequences,
+}: {
+  tokenizer: PreTrainedTokenizer;
+  stopSequences: string[];
+}): HFTransformersjsStoppingCriterion {
+  let promptLength: number | undefined;
+
+  return inputIds => {
+    // the first call happens after the first token was generated:
+    promptLength ??= inputIds[0].length - 1;
+
+    return inputIds.map(ids => {
+      const text = tokenizer.decode(ids.slice(promptLength).map(Number), { skip_special_tokens: true });
+      return findStopSequence(text, stopSequences) != null;
+    });
+  };
+}
+
+/**
+ * Stopping criteria for the stop sequences of a call, if any.
+ */
+export function getStopSequencesStoppingCriteria(
+  tokenizer: PreTrainedTokenizer,
+  stopSequences: string[] | undefined,
+): HFTransformersjsStoppingCriterion[] {
+  if (!stopSequences?.length) {
+    return [];
+  }
+  return [createStopSequencesStoppingCriterion({ tokenizer, stopSequences })];
+}
+
+/**
+ * Cuts the text before the first stop sequence it contains.
+ */
+export function trimAtStopSequence(text: string, stopSequences: string[] | undefined): string {
+  const index = findStopSequence(text, stopSequences ?? []);
+  return index != null ? text.slice(0, index) : text;
+}
+
+/**
+ * Stream stage that forwards text until a stop sequence appears. Text that could be the start of
+ * a stop sequence is held back until the following chunks tell whether it is one, so no partial
+ * stop sequence is ever emitted.
+ */
+export function createStopSequencesFilter(
+  stopSequences: string[] | undefined,
+  onText: (text: string) => void,
+): {
+  push: (text: string) => void;
+  flush: () => void;
+  isStopped: () => boolean;
+} {
+  const sequences = (stopSequences ?? []).filter(sequence => sequence.length > 0);
+  let buffer = '';
+  let stopped = false;
+
+  return {
+    push(text) {
+      if (stopped) {
+        return;
+      }
+      if (sequences.length === 0) {
+        onText(text);
+        return;
+      }
+
+      buffer += text;
+      const index = findStopSequence(buffer, sequences);
+      if (index != null) {
+        stopped = true;
+        emit(buffer.slice(0, index));
+        buffer = '';
+        return;
+      }
+
+      const heldBack = getPartialStopSequenceLength(buffer, sequences);
+      emit(buffer.slice(0, buffer.length - heldBack));
+      buffer = buffer.slice(buffer.length - heldBack);
+    },
+
+    flush() {
+      if (!stopped) {
+        emit(buffer);
+      }
+      buffer = '';
+    },
+
+    isStopped() {
+      return stopped;
+    },
+  };
+
+  function emit(text: string) {
+    if (text) {
+      onText(text);
+    }
+  }
+}
+
+function findStopSequence(text: string, stopSequences: string[]): number | undefined {
+  let first: number | undefined;
+  for (const sequence of stopSequences) {
+    const index = sequence ? text.indexOf(sequence) : -1;
+    if (index !== -1 && (first == null || index < first)) {
+      first = index;
+    }
+  }
+  return first;
+}
+
+/**
+ * Length of the longest suffix of the text that is a proper prefix of a stop sequence.
+ */
+function getPartialStopSequenceLength(text: string, stopSequences: string[]): number {
+  let longest = 0;
+  for (const sequence of stopSequences) {
+    for (let length = Math.min(sequence.length - 1, text.length); length > longest; length--) {
+      if (text.endsWith(sequence.slice(0, length))) {
+        longest = length;
+        break;
+      }
+    }
+  }
+  return longest;
+}
@@ -0,0 +1,155 @@
+// @ts-nocheck
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { HFTransformersjsTranscriptionModel } from "./hf-transformersjs-transcription-model";
+import { pipeline } from "@huggingface/transformers";
+
+vi.mock("@huggingface/transformers", () => {
+  return {
+    pipeline: vi.fn(),
+    Tensor: class {
+      constructor(type, data, dims) {
+        Object.assign(this, { type, data, dims });
+      }
+    },
+  };
+});
+
+// 16-bit PCM WAV file with the samples of every channel interleaved
+function createWav(frames, { sampleRate, channels }) {
+  const samples = frames.flat();
+  const bytes = new Uint8Array(44 + samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  const writeTag = (offset, tag) => [...tag].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+  writeTag(0, "RIFF");
+  view.setUint32(4, bytes.length - 8, true);
+  writeTag(8, "WAVE");
+  writeTag(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((sample, i) => view.setInt16(44 + i * 2, sample * 32767, true));
+  return bytes;
+}
+
+describe("HFTransformersjsTranscriptionModel", () => {
+  let mockTranscriber;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockTranscriber = vi.fn().mockResolvedValue({
+      text: " Hello world.",
+      chunks: [
+        { text: " Hello", timestamp: [0, 0.4] },
+        { text: " world.", timestamp: [0.4, null] },
+      ],
+    });
+    mockTranscriber.processor = vi.fn().mockResolvedValue({ input_features: "features" });
+    mockTranscriber.processor.feature_extractor = { config: { sampling_rate: 16000 } };
+    // Scores German highest after <|startoftranscript|>
+    mockTranscriber.model = vi.fn().mockResolvedValue({ logits: { data: Float32Array.from([0, 0.2, 0.9, 0.5]) } });
+    mockTranscriber.model.generation_config = {
+      is_multilingual: true,
+      decoder_start_token_id: 0,
+      lang_to_id: { "<|en|>": 1, "<|de|>": 2, "<|fr|>": 3 },
+    };
+
+    (pipeline as any).mockResolvedValue(mockTranscriber);
+  });
+
+  it("should transcribe WAV audio resampled to the model rate with segment timestamps", async () => {
+    const model = new HFTransformersjsTranscriptionModel("whisper", { language: "en" }, { provider: "hf-test" });
+    // a second of stereo audio at 8 kHz
+    const audio = createWav(Array.from({ length: 8000 }, () => [0.5, 0]), { sampleRate: 8000, channels: 2 });
+
+    const result = await model.doGenerate({ audio, mediaType: "audio/wav" });
+
+    expect(pipeline).toHaveBeenCalledWith("automatic-speech-recognition", "whisper", expect.anything());
+    const [samples, options] = mockTranscriber.mock.calls[0];
+    expect(samples).toHaveLength(16000);
+    expect(samples[100]).toBeCloseTo(0.25, 3);
+    expect(options).toEqual({ return_timestamps: true, chunk_length_s: 30, language: "en", task: undefined });
+    expect(result).toMatchObject({
+      text: "Hello world.",
+      segments: [
+        { text: "Hello", startSecond: 0, endSecond: 0.4 },
+        { text: "world.", startSecond: 0.4, endSecond: 1 },
+      ],
+      language: "en",
+      durationInSeconds: 1,
+      warnings: [],
+      response: { modelId: "whisper" },
+    });
+    expect(mockTranscriber.model).not.toHaveBeenCalled();
+  });
+
+  it("should filter out frequencies above the model rate's Nyquist frequency when resampling", async () => {
+    const model = new HFTransformersjsTranscriptionModel("whisper", { language: "en" }, { provider: "hf-test" });
+    const rms = samples => Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+    // a second of 44.1 kHz audio with a 12 kHz tone, which would alias to 4 kHz at 16 kHz
+    const tone = frequency => Float32Array.from({ length: 44100 }, (_, i) => Math.sin(2 * Math.PI * frequency * i / 44100));
+
+    await model.doGenerate({ audio: tone(12000), providerOptions: { hfTransformersjs: { sampleRate: 44100 } } });
+    await model.doGenerate({ audio: tone(440), providerOptions: { hfTransformersjs: { sampleRate: 44100 } } });
+
+    const [[filtered], [kept]] = mockTranscriber.mock.calls;
+    expect(filtered).toHaveLength(16000);
+    expect(rms(filtered)).toBeLessThan(0.01);
+    expect(rms(kept)).toBeCloseTo(Math.SQRT1_2, 2);
+  });
+
+  it("should detect the language of multilingual models", async () => {
+    const model = new HFTransformersjsTranscriptionModel("whisper", {}, { provider: "hf-test" });
+
+    const result = await model.doGenerate({ audio: new Float32Array(16000) });
+
+    expect(mockTranscriber.model.mock.calls[0][0]).toMatchObject({
+      input_features: "features",
+      decoder_input_ids: { type: "int64", dims: [1, 1] },
+    });
+    expect(mockTranscriber.mock.calls[0][1]).toMatchObject({ language: "de" });
+    expect(result.language).toBe("de");
+  });
+
+  it("should skip language detection for models without language tokens", async () => {
+    mockTranscriber.model.generation_config = { is_multilingual: true, lang_to_id: {} };
+    const model = new HFTransformersjsTranscriptionModel("whisper", {}, { provider: "hf-test" });
+
+    const result = await model.doGenerate({ audio: new Float32Array(16000) });
+
+    expect(mockTranscriber.model).not.toHaveBeenCalled();
+    expect(result.language).toBeUndefined();
+  });
+
+  it("should take 16-bit PCM bytes and per-call options for word timestamps", async () => {
+    mockTranscriber.model.generation_config = { is_multilingual: false };
+    const model = new HFTransformersjsTranscriptionModel("whisper.en", { task: "translate" }, { provider: "hf-test" });
+    const pcm = new Uint8Array(new Int16Array([16384, -16384, 0, 0]).buffer);
+
+    const result = await model.doGenerate({
+      audio: pcm,
+      providerOptions: { hfTransformersjs: { timestamps: "word", sampleRate: 16000 } },
+    });
+
+    const [samples, options] = mockTranscriber.mock.calls[0];
+    expect(Array.from(samples)).toEqual([0.5, -0.5, 0, 0]);
+    expect(options).toEqual({ return_timestamps: "word", chunk_length_s: 30 });
+    expect(result.language).toBe("en");
+    expect(result.warnings).toEqual([
+      { type: "unsupported-setting", setting: "task", details: "The model is not a multilingual Whisper model." },
+    ]);
+  });
+
+  it("should reject audio bytes that are neither WAV nor 16-bit PCM", async () => {
+    const model = new HFTransformersjsTranscriptionModel("whisper", { language: "en" }, { provider: "hf-test" });
+
+    await expect(model.doGenerate({ audio: new Uint8Array([1, 2, 3]) }))
+        .rejects.toMatchObject({ name: "AI_InvalidArgumentError", argument: "audio" });
+  });
+});
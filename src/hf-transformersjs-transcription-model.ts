@@ -0,0 +1,199 @@
+import { Tensor } from '@huggingface/transformers';
+import { throwIfAborted } from './hf-transformersjs-abort';
+import { decodeAudio, HFTransformersjsAudio, resampleAudio } from './hf-transformersjs-audio';
+import {
+  getPipelineOptions,
+  HFTransformersjsTranscriptionSettings,
+  parseTranscriptionSettings,
+} from './hf-transformersjs-settings';
+import { HFTransformersjsModelConfig, HFTransformersjsWarmupOptions } from './hf-transformersjs-model-config';
+import { createPipelineRegistry, HFTransformersjsPipelineRegistry } from './hf-transformersjs-pipeline-registry';
+import { createProgressListener } from './hf-transformersjs-progress';
+
+// Typed as the callable part of the automatic-speech-recognition pipeline, plus the processor and
+// model used to detect the language
+type TranscriptionPipeline = ((audio: Float32Array, options: Record<string, unknown>) => Promise<{
+  text: string;
+  chunks?: Array<{ text: string; timestamp: [number | null, number | null] }>;
+}>) & {
+  processor: ((audio: Float32Array) => Promise<{ input_features: Tensor }>) & {
+    feature_extractor: { config: { sampling_rate: number } };
+  };
+  model: ((inputs: Record<string, Tensor>) => Promise<{ logits: Tensor }>) & {
+    generation_config?: {
+      is_multilingual?: boolean;
+      decoder_start_token_id?: number;
+      lang_to_id?: Record<string, number>;
+    } | null;
+  };
+};
+
+export type HFTransformersjsTranscriptionCallWarning =
+  | { type: 'unsupported-setting'; setting: string; details?: string }
+  | { type: 'other'; message: string };
+
+/**
+ * Transcribes audio with a Whisper-style speech recognition model, shaped like the transcription
+ * models of the AI SDK. Always runs locally, also for providers with a `baseURL`.
+ */
+export class HFTransformersjsTranscriptionModel {
+  readonly specificationVersion = 'v1';
+  readonly modelId: string;
+  readonly settings: HFTransformersjsTranscriptionSettings;
+  readonly provider: string;
+
+  private readonly config: HFTransformersjsModelConfig;
+  private readonly pipelineRegistry: HFTransformersjsPipelineRegistry;
+
+  constructor(modelId: string, settings: HFTransformersjsTranscriptionSettings, config: HFTransformersjsModelConfig) {
+    this.modelId = modelId;
+    this.settings = parseTranscriptionSettings(settings);
+    this.config = config;
+    this.pipelineRegistry = config.pipelineRegistry ?? createPipelineRegistry();
+    this.provider = config.provider;
+  }
+
+  // Pipelines are shared through the registry and have to be released once the call is done
+  private acquirePipeline(
+      abortSignal?: AbortSignal,
+      onProgress?: HFTransformersjsWarmupOptions['onProgress'],
+  ) {
+    return this.pipelineRegistry.acquire<TranscriptionPipeline>({
+      task: 'automatic-speech-recognition',
+      modelId: this.modelId,
+      options: getPipelineOptions(this.settings),
+      abortSignal,
+      onProgress: createProgressListener(this.modelId, [
+        this.config.onProgress,
+        this.settings.onProgress,
+        onProgress,
+      ]),
+    });
+  }
+
+  /**
+   * Loads the model ahead of the first call, so that calls do not wait for the download.
+   */
+  async warmup({ runInference = false, onProgress, abortSignal }: HFTransformersjsWarmupOptions = {}): Promise<void> {
+    const { pipeline: transcriber, release } = await this.acquirePipeline(abortSignal, onProgress);
+    try {
+      if (runInference) {
+        // a second of silence
+        await transcriber(new Float32Array(transcriber.processor.feature_extractor.config.sampling_rate), {});
+      }
+    } finally {
+      release();
+    }
+  }
+
+  // The most likely language token after <|startoftranscript|>, as multilingual Whisper models
+  // predict it. transformers.js defaults to English instead of detecting the language. Models without
+  // language tokens leave the language undefined
+  private async detectLanguage(transcriber: TranscriptionPipeline, samples: Float32Array): Promise<string | undefined> {
+    const { decoder_start_token_id: startTokenId = 0, lang_to_id: languageTokenIds = {} } =
+      transcriber.model.generation_config ?? {};
+    const languages = Object.entries(languageTokenIds);
+    if (languages.length === 0) {
+      return undefined;
+    }
+    const samplingRate = transcriber.processor.feature_extractor.config.sampling_rate;
+
+    const { input_features } = await transcriber.processor(samples.subarray(0, samplingRate * 30));
+    const { logits } = await transcriber.model({
+      input_features,
+      decoder_input_ids: new Tensor('int64', BigInt64Array.from([BigInt(startTokenId)]), [1, 1]),
+    });
+
+    const scores = logits.data as Float32Array;
+    const [languageToken] = languages
+      .reduce((best, entry) => (scores[entry[1]] > scores[best[1]] ? entry : best));
+    // <|de|> -> de
+    return languageToken.slice(2, -2);
+  }
+
+  async doGenerate({
+    audio,
+    providerOptions,
+    abortSignal,
+  }: {
+    audio: HFTransformersjsAudio;
+
+    /**
+     * IANA media type of the audio. The audio bytes are decoded by their content, so it is not
+     * needed.
+     */
+    mediaType?: string;
+
+    /**
+     * Settings for this call under `hfTransformersjs`: `language`, `task`, `timestamps`,
+     * `chunkLength` and `sampleRate`.
+     */
+    providerOptions?: Record<string, Record<string, unknown>>;
+    abortSignal?: AbortSignal;
+    headers?: Record<string, string | undefined>;
+  }): Promise<{
+    text: string;
+    segments: Array<{ text: string; startSecond: number; endSecond: number }>;
+    language: string | undefined;
+    durationInSeconds: number | undefined;
+    warnings: HFTransformersjsTranscriptionCallWarning[];
+    response: { timestamp: Date; modelId: string; headers?: Record<string, string> };
+  }> {
+    const settings: HFTransformersjsTranscriptionSettings = {
+      ...this.settings,
+      ...parseTranscriptionSettings(providerOptions?.hfTransformersjs ?? {}),
+    };
+
+    const { pipeline: transcriber, release } = await this.acquirePipeline(abortSignal);
+    try {
+      const samplingRate = transcriber.processor.feature_extractor.config.sampling_rate;
+      const decoded = decodeAudio(audio, settings.sampleRate ?? samplingRate);
+      const samples = resampleAudio(decoded.samples, decoded.sampleRate, samplingRate);
+      const durationInSeconds = decoded.samples.length / decoded.sampleRate;
+
+      // English-only Whisper models and other speech recognition models take no language or task
+      const generationConfig = transcriber.model.generation_config;
+      const isMultilingual = generationConfig?.is_multilingual === true && generationConfig.lang_to_id != null;
+      const warnings: HFTransformersjsTranscriptionCallWarning[] = [];
+      if (!isMultilingual) {
+        for (const setting of ['language', 'task'] as const) {
+          if (settings[setting] != null) {
+            warnings.push({ type: 'unsupported-setting', setting, details: 'The model is not a multilingual Whisper model.' });
+          }
+        }
+      }
+
+      let language = settings.language;
+      if (generationConfig?.is_multilingual === false) {
+        language = 'en';
+      } else if (isMultilingual && language == null) {
+        language = await this.detectLanguage(transcriber, samples);
+        throwIfAborted(abortSignal);
+      }
+
+      const timestamps = settings.timestamps ?? 'segment';
+      const output = await transcriber(samples, {
+        return_timestamps: timestamps === 'word' ? 'word' : true,
+        chunk_length_s: settings.chunkLength ?? 30,
+        ...(isMultilingual ? { language, task: settings.task } : {}),
+      });
+      throwIfAborted(abortSignal);
+
+      return {
+        text: output.text.trim(),
+        segments: (output.chunks ?? []).map(chunk => ({
+          text: chunk.text.trim(),
+          startSecond: chunk.timestamp[0] ?? 0,
+          // the last segment of cut-off speech has no end
+          endSecond: chunk.timestamp[1] ?? durationInSeconds,
+        })),
+        language,
+        durationInSeconds,
+        warnings,
+        response: { timestamp: new Date(), modelId: this.modelId },
+      };
+    } finally {
+      release();
+    }
+  }
+}
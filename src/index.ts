@@ -1,8 +1,41 @@
 export * from './hf-transformersjs-completion-language-model-openai-compatible';
 export * from './hf-transformersjs-chat-language-model';
 export * from './hf-transformersjs-completion-language-model';
+export * from './hf-transformersjs-embedding-error';
 export * from './hf-transformersjs-embedding-model';
 export * from './hf-transformersjs-provider';
+export * from './hf-transformersjs-reranking-model';
+export * from './hf-transformersjs-transcription-model';
+export {
+  convertFromOpenAICompatibleChatMessages,
+  type OpenAICompatibleChatMessage,
+} from './convert-from-openai-compatible-chat-messages';
+export type { HFTransformersjsAudio } from './hf-transformersjs-audio';
+export type { HFTransformersjsHubSettings } from './hf-transformersjs-hub';
+export type {
+  HFTransformersjsLogger,
+  HFTransformersjsLoggerSettings,
+  HFTransformersjsLogLevel,
+} from './hf-transformersjs-logger';
+export type { HFTransformersjsOpenAICompatibleParameters } from './hf-transformersjs-openai-compatible';
+export type { HFTransformersjsWarmupOptions } from './hf-transformersjs-model-config';
+export type {
+  HFTransformersjsDownloadProgress,
+  HFTransformersjsProgressEvent,
+  HFTransformersjsProgressListener,
+} from './hf-transformersjs-progress';
+export type {
+  HFTransformersjsChatSettings,
+  HFTransformersjsCompletionSettings,
+  HFTransformersjsDataType,
+  HFTransformersjsDevice,
+  HFTransformersjsEmbeddingSettings,
+  HFTransformersjsGenerationSettings,
+  HFTransformersjsPipelineSettings,
+  HFTransformersjsPooling,
+  HFTransformersjsRerankingSettings,
+  HFTransformersjsTranscriptionSettings,
+} from './hf-transformersjs-settings';
 export * from './hf-transformersjs-chat-language-model-openai-compatible';
 export * from './hf-transformersjs-chat-language-model';
 export * from './hf-transformersjs-completion-language-model';
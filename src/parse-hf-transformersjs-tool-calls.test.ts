@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { parseToolCalls } from "./parse-hf-transformersjs-tool-calls";
+
+const options = {
+  toolNames: ["get_weather"],
+  generateToolCallId: () => "call-1",
+};
+
+describe("parseToolCalls", () => {
+  it("should parse Hermes style tool calls", () => {
+    const result = parseToolCalls(
+        'Let me check.\n<tool_call>\n{"name": "get_weather", "arguments": {"city": "Paris"}}\n</tool_call>',
+        options,
+    );
+
+    expect(result).toEqual({
+      text: "Let me check.",
+      toolCalls: [{
+        toolCallType: "function",
+        toolCallId: "call-1",
+        toolName: "get_weather",
+        args: '{"city":"Paris"}',
+      }],
+    });
+  });
+
+  it("should parse an unterminated Hermes style tool call", () => {
+    const result = parseToolCalls(
+        '<tool_call>{"name": "get_weather", "arguments": {"city": "Rome"}}',
+        options,
+    );
+
+    expect(result.toolCalls.map(call => call.args)).toEqual(['{"city":"Rome"}']);
+  });
+
+  it("should keep the text around Hermes style tool calls", () => {
+    const result = parseToolCalls(
+        'Let me check.\n<tool_call>{"name": "get_weather", "arguments": {"city": "Paris"}}</tool_call>\nOne moment.',
+        options,
+    );
+
+    expect(result.text).toBe("Let me check.\n\nOne moment.");
+    expect(result.toolCalls).toHaveLength(1);
+  });
+
+  it("should drop calls of tools that were not offered", () => {
+    const hermes = '<tool_call>{"name": "nope", "arguments": {}}</tool_call>';
+    const qwen = '✿FUNCTION✿: nope\n✿ARGS✿: {}';
+    const llama3 = '{"name": "nope", "parameters": {}}';
+
+    expect(parseToolCalls(hermes, options).toolCalls).toEqual([]);
+    expect(parseToolCalls(qwen, options).toolCalls).toEqual([]);
+    expect(parseToolCalls(llama3, options).toolCalls).toEqual([]);
+    expect(parseToolCalls(
+        '<tool_call>{"name": "nope", "arguments": {}}</tool_call><tool_call>{"name": "get_weather", "arguments": {}}</tool_call>',
+        options,
+    ).toolCalls.map(call => call.toolName)).toEqual(["get_weather"]);
+  });
+
+  it("should parse parallel Llama 3 style tool calls", () => {
+    const result = parseToolCalls(
+        '<|python_tag|>{"name": "get_weather", "parameters": {"city": "Paris"}}; {"name": "get_weather", "parameters": {"city": "Oslo"}}',
+        options,
+    );
+
+    expect(result.text).toBe("");
+    expect(result.toolCalls.map(call => call.args)).toEqual([
+      '{"city":"Paris"}',
+      '{"city":"Oslo"}',
+    ]);
+  });
+
+  it("should not treat a plain JSON answer as a Llama 3 tool call", () => {
+    const text = '{"name": "Paris", "country": "France"}';
+
+    expect(parseToolCalls(text, options)).toEqual({ text, toolCalls: [] });
+  });
+
+  it("should parse Qwen style tool calls", () => {
+    const result = parseToolCalls(
+        'Checking\n✿FUNCTION✿: get_weather\n✿ARGS✿: {"city": "Paris"}\n✿RESULT✿',
+        options,
+    );
+
+    expect(result.text).toBe("Checking");
+    expect(result.toolCalls).toEqual([
+      expect.objectContaining({ toolName: "get_weather", args: '{"city":"Paris"}' }),
+    ]);
+  });
+
+  it("should only use the requested format", () => {
+    const text = '<tool_call>{"name": "get_weather", "arguments": {}}</tool_call>';
+
+    expect(parseToolCalls(text, { ...options, format: "qwen" }).toolCalls).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+import { LanguageModelV1FunctionToolCall } from '@ai-sdk/provider';
+import { generateId } from '@ai-sdk/provider-utils';
+
+/**
+ * Tool-call output conventions of common open-weight chat models:
+ *
+ * - `hermes`: `<tool_call>{"name": ..., "arguments": {...}}</tool_call>` (Hermes 2 Pro, Qwen 2.5, SmolLM)
+ * - `llama3`: a bare `{"name": ..., "parameters": {...}}` object, optionally after `<|python_tag|>` (Llama 3.1+)
+ * - `qwen`: `✿FUNCTION✿: name` followed by `✿ARGS✿: {...}` (Qwen-Agent function calling)
+ * - `auto`: try each convention in turn
+ */
+export type HFTransformersjsToolCallFormat = 'auto' | 'hermes' | 'llama3' | 'qwen';
+
+export function parseToolCalls(
+  generatedText: string,
+  {
+    format = 'auto',
+    toolNames,
+    generateToolCallId = generateId,
+  }: {
+    format?: HFTransformersjsToolCallFormat;
+    /**
+     * Names of the tools offered to the model. Calls of other tools are dropped, and bare JSON
+     * output is only treated as a tool call when it names one of them.
+     */
+    toolNames: string[];
+    generateToolCallId?: () => string;
+  },
+): { text: string; toolCalls: LanguageModelV1FunctionToolCall[] } {
+  const parsers = format === 'auto'
+    ? [parseHermesToolCalls, parseQwenToolCalls, parseLlama3ToolCalls]
+    : [{ hermes: parseHermesToolCalls, llama3: parseLlama3ToolCalls, qwen: parseQwenToolCalls }[format]];
+
+  for (const parser of parsers) {
+    const result = parser(generatedText, toolNames);
+    if (result != null && result.calls.length > 0) {
+      return {
+        text: result.text,
+        toolCalls: result.calls.map(call => ({
+          toolCallType: 'function',
+          toolCallId: generateToolCallId(),
+          toolName: call.name,
+          args: stringifyArguments(call.arguments),
+        })),
+      };
+    }
+  }
+
+  return { text: generatedText, toolCalls: [] };
+}
+
+interface ParsedToolCall {
+  name: string;
+  arguments: unknown;
+}
+
+type ToolCallParser = (
+  text: string,
+  toolNames: string[],
+) => { text: string; calls: ParsedToolCall[] } | undefined;
+
+const parseHermesToolCalls: ToolCallParser = (text, toolNames) => {
+  if (!text.includes('<tool_call>')) {
+    return undefined;
+  }
+
+  const calls: ParsedToolCall[] = [];
+  // the closing tag can be missing when generation ends right after the call:
+  const pattern = /<tool_call>([\s\S]*?)(?:<\/tool_call>|$)/g;
+  for (const match of text.matchAll(pattern)) {
+    const call = parseJsonToolCall(match[1]);
+    if (call != null && toolNames.includes(call.name)) {
+      calls.push(call);
+    }
+  }
+
+  // the model can write text between and after the calls as well:
+  return { text: text.replace(pattern, '').trim(), calls };
+};
+
+const parseQwenToolCalls: ToolCallParser = (text, toolNames) => {
+  const start = text.indexOf('✿FUNCTION✿');
+  if (start === -1) {
+    return undefined;
+  }
+
+  const calls: ParsedToolCall[] = [];
+  const pattern = /✿FUNCTION✿:\s*(.+?)\s*\n✿ARGS✿:\s*([\s\S]*?)(?=✿FUNCTION✿|✿RESULT✿|✿RETURN✿|$)/g;
+  for (const match of text.matchAll(pattern)) {
+    if (!toolNames.includes(match[1])) {
+      continue;
+    }
+    const args = match[2].trim();
+    calls.push({ name: match[1], arguments: safeParse(args) ?? args });
+  }
+
+  return { text: text.slice(0, start).trim(), calls };
+};
+
+const parseLlama3ToolCalls: ToolCallParser = (text, toolNames) => {
+  const body = text.replace('<|python_tag|>', '').trim();
+  if (!body.startsWith('{')) {
+    return undefined;
+  }
+
+  // Llama 3 separates parallel calls with semicolons:
+  const calls: ParsedToolCall[] = [];
+  for (const candidate of body.split(/}\s*;\s*{/).map((part, index, parts) =>
+    (index > 0 ? '{' : '') + part + (index < parts.length - 1 ? '}' : ''))) {
+    const call = parseJsonToolCall(candidate);
+    if (call == null || !toolNames.includes(call.name)) {
+      // plain JSON answers are not tool calls:
+      return undefined;
+    }
+    calls.push(call);
+  }
+
+  return { text: '', calls };
+};
+
+function parseJsonToolCall(json: string): ParsedToolCall | undefined {
+  const value = safeParse(json.trim());
+  if (value == null || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const { name, arguments: args, parameters } = value as Record<string, unknown>;
+  if (typeof name !== 'string') {
+    return undefined;
+  }
+  return { name, arguments: args ?? parameters ?? {} };
+}
+
+function stringifyArguments(args: unknown): string {
+  if (typeof args === 'string') {
+    return args;
+  }
+  return JSON.stringify(args);
+}
+
+function safeParse(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+}
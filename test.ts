@@ -8,9 +8,7 @@ async function main() {
         name: "hf-transformersjs",
     });
     console.log("Provider created");
-    const llm = provider.languageModel("onnx-community/gemma-3-1b-it-ONNX", {
-        provider: "hf-transformersjs",
-    })
+    const llm = provider.languageModel("onnx-community/gemma-3-1b-it-ONNX")
     console.log("Language model created");
     const userMessages:  Array<LanguageModelV1TextPart> = [
         {type: "text", text: "What is the capital of France?"},
@@ -1,7 +1,11 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    // Node.js only, kept out of the main entry so that it can be bundled for browsers
+    server: 'src/hf-transformersjs-server.ts',
+  },
   outDir: 'dist',
   format: ['cjs', 'esm'],
   dts: true,